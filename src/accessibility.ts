@@ -0,0 +1,202 @@
+/**
+ * Accessibility checks: every diagram needs an accessible title and description
+ *
+ * Mermaid renders accTitle and accDescr (or a frontmatter or diagram title) as
+ * the SVG's <title> and <desc>, which is all a screen reader gets to announce.
+ * The fields are read from the diagram text rather than mermaid's database,
+ * because not every diagram type keeps them there and the frontmatter title
+ * is only applied when rendering.
+ */
+
+import { isScalar, parseDocument } from 'yaml';
+import { MERMAID_FRONTMATTER_PATTERN } from './mermaid-config.js';
+import type { IssueMessage } from './messages.js';
+
+/**
+ * Accessibility check names, usable in suppression directives
+ */
+export type AccessibilityCheck = 'accTitle' | 'accDescr';
+
+/**
+ * Accessibility problem found in a diagram
+ */
+export interface AccessibilityIssue extends IssueMessage {
+  check: AccessibilityCheck;
+  /** Offset of the offending value in the diagram code; absent when the field is missing */
+  offset?: number;
+  length?: number;
+}
+
+/**
+ * A title or description found in the diagram code
+ */
+interface AccessibilityField {
+  keyword: 'accTitle' | 'accDescr' | 'title';
+  value: string;
+  /** Offset and length of the value (of the keyword when the value is empty) */
+  offset: number;
+  length: number;
+}
+
+/**
+ * Statements that set a title or description; group 1 is the value
+ */
+const FIELD_PATTERNS: [AccessibilityField['keyword'], RegExp][] = [
+  ['accTitle', /^[ \t]*accTitle[ \t]*:[ \t]*(.*)$/dgm],
+  ['accDescr', /^[ \t]*accDescr[ \t]*:[ \t]*(.*)$/dgm],
+  ['accDescr', /^[ \t]*accDescr[ \t]*\{([^}]*)\}/dgm],
+  // "title ..." statements, including on the header line of pie charts
+  ['title', /^[ \t]*(?:pie[ \t]+(?:showData[ \t]+)?)?title\b[ \t]*(.*)$/dgm],
+];
+
+/**
+ * Values that stand in for a real title or description
+ */
+const PLACEHOLDER_VALUES: readonly string[] = [
+  'todo',
+  'tbd',
+  'fixme',
+  'xxx',
+  'placeholder',
+  'title',
+  'description',
+  'diagram',
+  'untitled',
+  'lorem ipsum',
+  'n/a',
+  'none',
+];
+
+/**
+ * Find the title in the YAML frontmatter, if any
+ */
+function findFrontmatterTitle(code: string): AccessibilityField | null {
+  const match = [...code.matchAll(MERMAID_FRONTMATTER_PATTERN)][0];
+  const bodyOffset = match?.indices?.[1]?.[0];
+  if (bodyOffset === undefined) {
+    return null;
+  }
+
+  const document = parseDocument(match[1]);
+  const title = document.get('title', true);
+  if (!(isScalar(title) && title.range)) {
+    return null;
+  }
+  const [start, end] = title.range;
+  return {
+    keyword: 'title',
+    value: String(title.value ?? ''),
+    offset: bodyOffset + start,
+    length: end - start,
+  };
+}
+
+/**
+ * Find the accTitle, accDescr and title statements of a diagram
+ */
+function findAccessibilityFields(code: string): AccessibilityField[] {
+  const frontmatter = [...code.matchAll(MERMAID_FRONTMATTER_PATTERN)][0];
+  const frontmatterEnd = frontmatter ? frontmatter.index + frontmatter[0].length : 0;
+  const frontmatterTitle = findFrontmatterTitle(code);
+  const fields: AccessibilityField[] = frontmatterTitle ? [frontmatterTitle] : [];
+
+  for (const [keyword, pattern] of FIELD_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      if (match.index < frontmatterEnd) {
+        continue;
+      }
+      const [start, end] = match.indices?.[1] ?? [match.index, match.index];
+      const raw = match[1];
+      const value = raw
+        .trim()
+        .replace(/\s+/g, ' ')
+        .replace(/^"(.*)"$/, '$1');
+      const valueOffset = start + raw.length - raw.trimStart().length;
+      const keywordOffset = match.index + match[0].length - match[0].trimStart().length;
+      fields.push(
+        value
+          ? { keyword, value, offset: valueOffset, length: raw.trim().length }
+          : { keyword, value, offset: keywordOffset, length: end - keywordOffset }
+      );
+    }
+  }
+  return fields;
+}
+
+/**
+ * Check whether a value stands in for a real title or description
+ */
+function isPlaceholder(value: string): boolean {
+  return PLACEHOLDER_VALUES.includes(value.toLowerCase()) || /^[\p{P}\p{S}\s]+$/u.test(value);
+}
+
+/**
+ * Report an empty or placeholder value
+ */
+function checkFieldValue(
+  field: AccessibilityField,
+  check: AccessibilityCheck
+): AccessibilityIssue[] {
+  const { offset, length } = field;
+  if (!field.value) {
+    return [{ check, offset, length, variant: 'empty', params: { keyword: field.keyword } }];
+  }
+  if (isPlaceholder(field.value)) {
+    return [
+      {
+        check,
+        offset,
+        length,
+        variant: 'placeholder',
+        params: { keyword: field.keyword, value: field.value },
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Find missing, empty and placeholder titles and descriptions
+ */
+export function findAccessibilityIssues(
+  code: string,
+  minDescriptionLength: number
+): AccessibilityIssue[] {
+  const fields = findAccessibilityFields(code);
+  const titles = fields.filter((field) => field.keyword !== 'accDescr');
+  const descriptions = fields.filter((field) => field.keyword === 'accDescr');
+  const issues: AccessibilityIssue[] = [];
+
+  if (titles.length === 0) {
+    issues.push({
+      check: 'accTitle',
+      params: {},
+    });
+  }
+  for (const title of titles) {
+    issues.push(...checkFieldValue(title, 'accTitle'));
+  }
+
+  if (descriptions.length === 0) {
+    issues.push({
+      check: 'accDescr',
+      params: {},
+    });
+  }
+  for (const description of descriptions) {
+    const [issue] = checkFieldValue(description, 'accDescr');
+    if (issue) {
+      issues.push(issue);
+    } else if (description.value.length < minDescriptionLength) {
+      issues.push({
+        check: 'accDescr',
+        offset: description.offset,
+        length: description.length,
+        variant: 'short',
+        params: { length: description.value.length, min: minDescriptionLength },
+      });
+    }
+  }
+
+  return issues.sort((a, b) => (a.offset ?? -1) - (b.offset ?? -1));
+}
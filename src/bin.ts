@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * mermaid-lint executable
+ */
+
+import { runCli } from './cli.js';
+
+process.exitCode = await runCli(process.argv.slice(2));
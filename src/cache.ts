@@ -0,0 +1,142 @@
+/**
+ * Persistent cache of validation results
+ *
+ * Each result is stored as a JSON file named after the hash of everything the
+ * result depends on (block content, parser version, rule config). Reads touch
+ * the file's modification time, so eviction removes the least recently used
+ * entries first. Cache I/O failures are ignored: a broken cache only costs
+ * the work it would have saved.
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { join, resolve } from 'node:path';
+
+/**
+ * Cache directory used when none is configured, relative to the working directory
+ */
+export const DEFAULT_CACHE_DIRECTORY = 'node_modules/.cache/markdownlint-rule-mermaid';
+
+/**
+ * Number of entries kept when none is configured
+ */
+export const DEFAULT_CACHE_MAX_ENTRIES = 10000;
+
+/**
+ * Bump when rule changes make results for the same input differ
+ */
+const CACHE_FORMAT_VERSION = 6;
+
+/**
+ * Where and how much to cache
+ */
+export interface CacheOptions {
+  directory: string;
+  maxEntries: number;
+}
+
+// Entry counts of the cache directories used by this process
+const entryCounts: Map<string, number> = new Map();
+
+/**
+ * Hash the values a cached result depends on into a cache key
+ */
+export function cacheKey(parts: unknown[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify([CACHE_FORMAT_VERSION, ...parts]))
+    .digest('hex');
+}
+
+/**
+ * Get the path of an entry
+ */
+function entryPath(directory: string, key: string): string {
+  return join(resolve(directory), `${key}.json`);
+}
+
+/**
+ * List the entries of a cache directory
+ */
+function listEntries(directory: string): string[] {
+  try {
+    return readdirSync(resolve(directory)).filter((name) => name.endsWith('.json'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read a cached value, marking it as recently used
+ */
+export function readCache<T>(options: CacheOptions, key: string): T | undefined {
+  const path = entryPath(options.directory, key);
+  try {
+    const value = JSON.parse(readFileSync(path, 'utf8')) as T;
+    const now = new Date();
+    utimesSync(path, now, now);
+    return value;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remove the least recently used entries until a tenth of the limit is free
+ */
+function evictEntries(options: CacheOptions): number {
+  const directory = resolve(options.directory);
+  const entries = listEntries(directory)
+    .map((name) => {
+      try {
+        return { name, used: statSync(join(directory, name)).mtimeMs };
+      } catch {
+        return { name, used: 0 };
+      }
+    })
+    .sort((a, b) => a.used - b.used);
+  const keep = Math.floor(options.maxEntries * 0.9);
+  const evicted = entries.slice(0, Math.max(0, entries.length - keep));
+
+  for (const { name } of evicted) {
+    rmSync(join(directory, name), { force: true });
+  }
+  return entries.length - evicted.length;
+}
+
+/**
+ * Store a value, evicting old entries when the cache is full
+ */
+export function writeCache(options: CacheOptions, key: string, value: unknown): void {
+  const directory = resolve(options.directory);
+  const path = entryPath(directory, key);
+  const replaced = existsSync(path);
+  try {
+    mkdirSync(directory, { recursive: true });
+    writeFileSync(path, JSON.stringify(value));
+  } catch {
+    return;
+  }
+  if (replaced) {
+    return;
+  }
+
+  const count = (entryCounts.get(directory) ?? listEntries(directory).length - 1) + 1;
+  entryCounts.set(directory, count > options.maxEntries ? evictEntries(options) : count);
+}
+
+/**
+ * Remove every cached result
+ */
+export function clearCache(directory: string = DEFAULT_CACHE_DIRECTORY): void {
+  rmSync(resolve(directory), { recursive: true, force: true });
+  entryCounts.delete(resolve(directory));
+}
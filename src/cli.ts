@@ -0,0 +1,255 @@
+/**
+ * mermaid-lint command line interface
+ *
+ * Lints Markdown files, mermaid diagram files (.mmd, .mermaid) and math files
+ * (.tex, .katex) with the rules of this package, without a markdownlint setup.
+ * The rules recognize diagram and math files by their extension and read
+ * each as one diagram or expression. Exit codes: 0 when nothing is found,
+ * 1 when errors are found, 2 for usage, configuration and file errors.
+ * markdownlint is a peer dependency, loaded when there are files to lint.
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { Configuration, LintError, Rule } from 'markdownlint';
+import { parse as parseYaml } from 'yaml';
+import { expandFilePatterns } from './files.js';
+import {
+  closeWorkerPool,
+  katexSyntaxRule,
+  mermaidAccessibilityRule,
+  mermaidSecurityRule,
+  mermaidStyleRule,
+  mermaidSyntaxRule,
+} from './index.js';
+
+const MARKDOWN_EXTENSIONS: readonly string[] = ['.md', '.markdown'];
+const WHOLE_FILE_EXTENSIONS: readonly string[] = ['.mmd', '.mermaid', '.tex', '.katex'];
+
+const EXIT_OK = 0;
+const EXIT_ERRORS = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: mermaid-lint [options] <files, directories or globs...>
+
+Lints mermaid diagrams and math in Markdown files (.md, .markdown), and
+diagram (.mmd, .mermaid) and math (.tex, .katex) files as a whole.
+Patterns starting with ! exclude files.
+
+Options:
+  -b, --basic            Validate mermaid without the parser (basic mode)
+  -c, --config <file>    Rule configuration (JSON or YAML, markdownlint format)
+  -f, --format <format>  Output format: text (default) or json
+  -h, --help             Show this help
+
+Exit codes: 0 no errors, 1 errors found, 2 usage or configuration error
+`;
+
+const OUTPUT_FORMATS: readonly string[] = ['text', 'json'];
+
+type Lint = typeof import('markdownlint/promise').lint;
+
+/**
+ * Where the CLI reads and writes
+ */
+export interface CliIO {
+  cwd: string;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/**
+ * An error found in a linted file
+ */
+interface LintProblem {
+  file: string;
+  line: number;
+  column: number | null;
+  rule: string;
+  /** Error code (MMD-..., KTX-...) */
+  code: string | null;
+  message: string;
+  context: string | null;
+}
+
+const CODE_PATTERN = /^((?:MMD|KTX)-[A-Z0-9-]+): /;
+
+/**
+ * Rules enabled unless the configuration file says otherwise; markdownlint's
+ * own rules are off
+ */
+const DEFAULT_CONFIG: Configuration = {
+  default: false,
+  'mermaid-syntax': true,
+  'katex-syntax': true,
+};
+
+const processIO: CliIO = {
+  cwd: process.cwd(),
+  stdout: (text: string): void => {
+    process.stdout.write(text);
+  },
+  stderr: (text: string): void => {
+    process.stderr.write(text);
+  },
+};
+
+/**
+ * Read a configuration file: an object of rule settings as markdownlint takes them
+ */
+function readConfigFile(path: string): Configuration {
+  const text = readFileSync(path, 'utf8');
+  const config: unknown = ['.yaml', '.yml'].includes(extname(path).toLowerCase())
+    ? parseYaml(text)
+    : JSON.parse(text);
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Configuration file '${path}' must hold an object of rule settings`);
+  }
+  return config as Configuration;
+}
+
+/**
+ * Build the markdownlint configuration from the defaults, the configuration
+ * file and the --basic flag
+ */
+function buildConfig(configFile: string | undefined, basic: boolean, cwd: string): Configuration {
+  const config = {
+    ...DEFAULT_CONFIG,
+    ...(configFile === undefined ? {} : readConfigFile(resolve(cwd, configFile))),
+  };
+  const syntax = config['mermaid-syntax'];
+  if (basic && syntax !== false) {
+    config['mermaid-syntax'] = { ...(typeof syntax === 'object' ? syntax : {}), basic: true };
+  }
+  return config;
+}
+
+/**
+ * Convert markdownlint's results into lint problems
+ */
+function toLintProblems(results: Record<string, LintError[]>): LintProblem[] {
+  return Object.entries(results).flatMap(([file, errors]) =>
+    errors.map((error) => {
+      const detail = error.errorDetail ?? error.ruleDescription;
+      return {
+        file,
+        line: error.lineNumber,
+        column: error.errorRange?.[0] ?? null,
+        rule: error.ruleNames[0],
+        code: detail.match(CODE_PATTERN)?.[1] ?? null,
+        message: detail,
+        context: error.errorContext ?? null,
+      };
+    })
+  );
+}
+
+/**
+ * Format an error as a line of text output (file:line:column rule message)
+ */
+function formatText(error: LintProblem): string {
+  const position = error.column === null ? error.line : `${error.line}:${error.column}`;
+  const context = error.context === null ? '' : ` [Context: "${error.context}"]`;
+  return `${error.file}:${position} ${error.rule} ${error.message}${context}\n`;
+}
+
+/**
+ * Import markdownlint's lint function, failing with installation advice
+ * when the peer dependency is missing
+ */
+async function loadLint(): Promise<Lint> {
+  try {
+    return (await import('markdownlint/promise')).lint;
+  } catch {
+    throw new Error(
+      'markdownlint is not installed. Install it next to this package: npm install --save-dev markdownlint'
+    );
+  }
+}
+
+/**
+ * Lint files with the rules of this package. Markdown front matter is
+ * skipped; diagram files keep theirs, which is mermaid configuration.
+ */
+async function lintFiles(
+  files: string[],
+  config: Configuration,
+  cwd: string
+): Promise<LintProblem[]> {
+  const wholeFiles = files.filter((file) =>
+    WHOLE_FILE_EXTENSIONS.includes(extname(file).toLowerCase())
+  );
+  const markdownFiles = files.filter((file) => !wholeFiles.includes(file));
+  const customRules = [
+    mermaidSyntaxRule,
+    mermaidAccessibilityRule,
+    mermaidStyleRule,
+    mermaidSecurityRule,
+    katexSyntaxRule,
+  ] as unknown as Rule[];
+  const readFiles = (names: string[]): Record<string, string> =>
+    Object.fromEntries(names.map((name) => [name, readFileSync(resolve(cwd, name), 'utf8')]));
+
+  const lint = await loadLint();
+  const results = [
+    await lint({ strings: readFiles(markdownFiles), config, customRules }),
+    await lint({ strings: readFiles(wholeFiles), config, customRules, frontMatter: null }),
+  ];
+  return results
+    .flatMap(toLintProblems)
+    .sort((a, b) => files.indexOf(a.file) - files.indexOf(b.file) || a.line - b.line);
+}
+
+/**
+ * Run the CLI with command line arguments, returning the exit code
+ */
+export async function runCli(args: string[], io: CliIO = processIO): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        basic: { type: 'boolean', short: 'b', default: false },
+        config: { type: 'string', short: 'c' },
+        format: { type: 'string', short: 'f', default: 'text' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+    if (values.help) {
+      io.stdout(USAGE);
+      return EXIT_OK;
+    }
+    if (positionals.length === 0 || !OUTPUT_FORMATS.includes(values.format)) {
+      io.stderr(
+        positionals.length === 0
+          ? `No files given\n\n${USAGE}`
+          : `Unknown output format "${values.format}". Available formats: ${OUTPUT_FORMATS.join(', ')}\n`
+      );
+      return EXIT_USAGE;
+    }
+
+    const config = buildConfig(values.config, values.basic, io.cwd);
+    const { files, unmatched } = expandFilePatterns(positionals, io.cwd, [
+      ...MARKDOWN_EXTENSIONS,
+      ...WHOLE_FILE_EXTENSIONS,
+    ]);
+    if (unmatched.length > 0) {
+      io.stderr(`No files match ${unmatched.map((pattern) => `"${pattern}"`).join(', ')}\n`);
+      return EXIT_USAGE;
+    }
+
+    const errors = await lintFiles(files, config, io.cwd);
+    io.stdout(
+      values.format === 'json'
+        ? `${JSON.stringify(errors, null, 2)}\n`
+        : errors.map(formatText).join('')
+    );
+    return errors.length > 0 ? EXIT_ERRORS : EXIT_OK;
+  } catch (error) {
+    io.stderr(`mermaid-lint: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_USAGE;
+  } finally {
+    await closeWorkerPool();
+  }
+}
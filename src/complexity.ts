@@ -0,0 +1,168 @@
+/**
+ * Complexity limits for diagrams
+ *
+ * Line count and text size are measured on the diagram code. Node, edge,
+ * subgraph and participant counts come from the database mermaid builds while
+ * parsing, through the layout data most diagram types provide (getData) or the
+ * sequence diagram actor list.
+ */
+
+/**
+ * Limits configurable in the rule config; unset limits without a default are not checked
+ */
+export interface ComplexityLimits {
+  /** Maximum number of lines in a diagram */
+  maxLines?: number;
+  /** Maximum number of nodes (flowchart nodes, classes, entities, states, ...) */
+  maxNodes?: number;
+  /** Maximum number of edges (links, relations, transitions; flowchart default: 500, mermaid's render limit) */
+  maxEdges?: number;
+  /** Maximum number of characters in a diagram (default: 50000, mermaid's render limit) */
+  maxTextSize?: number;
+  /** Maximum nesting depth of subgraphs and composite states */
+  maxSubgraphDepth?: number;
+  /** Maximum number of sequence diagram participants */
+  maxParticipants?: number;
+}
+
+/**
+ * Measured size of a diagram; metrics a diagram type does not have are absent
+ */
+export interface DiagramMetrics {
+  lines?: number;
+  textSize?: number;
+  nodes?: number;
+  edges?: number;
+  subgraphDepth?: number;
+  participants?: number;
+}
+
+/**
+ * A limit the diagram exceeds
+ */
+export interface LimitViolation {
+  limit: keyof ComplexityLimits;
+  actual: number;
+  max: number;
+}
+
+/**
+ * The parts of mermaid's diagram databases used for measuring
+ */
+interface LayoutNode {
+  id: string;
+  isGroup?: boolean;
+  parentId?: string;
+}
+
+export interface MeasurableDb {
+  getData?(): { nodes: LayoutNode[]; edges: unknown[] };
+  getActors?(): Map<string, unknown>;
+}
+
+/**
+ * Largest text mermaid renders with its default config
+ */
+export const MERMAID_MAX_TEXT_SIZE = 50000;
+
+/**
+ * Most links mermaid renders in a flowchart with its default config
+ */
+export const MERMAID_MAX_EDGES = 500;
+
+/**
+ * Limits that need the parsed diagram database
+ */
+export const DB_LIMITS: readonly (keyof ComplexityLimits)[] = [
+  'maxNodes',
+  'maxEdges',
+  'maxSubgraphDepth',
+  'maxParticipants',
+];
+
+/**
+ * Metric measured for each limit
+ */
+const LIMIT_METRICS: Record<keyof ComplexityLimits, keyof DiagramMetrics> = {
+  maxLines: 'lines',
+  maxTextSize: 'textSize',
+  maxNodes: 'nodes',
+  maxEdges: 'edges',
+  maxSubgraphDepth: 'subgraphDepth',
+  maxParticipants: 'participants',
+};
+
+/**
+ * Measure the diagram code
+ */
+export function measureText(code: string): DiagramMetrics {
+  return { lines: code.split('\n').length, textSize: code.length };
+}
+
+/**
+ * Get the nesting depth of the deepest group (subgraph, composite state)
+ */
+function getGroupDepth(nodes: LayoutNode[]): number {
+  const parents = new Map(nodes.map((node) => [node.id, node.parentId]));
+  let deepest = 0;
+
+  for (const node of nodes) {
+    if (!node.isGroup) {
+      continue;
+    }
+    let depth = 1;
+    for (let parent = node.parentId; parent; parent = parents.get(parent)) {
+      depth++;
+    }
+    deepest = Math.max(deepest, depth);
+  }
+  return deepest;
+}
+
+/**
+ * Measure a parsed diagram database
+ */
+export function measureDiagramDb(db: MeasurableDb): DiagramMetrics {
+  const metrics: DiagramMetrics = {};
+
+  if (typeof db.getData === 'function') {
+    const { nodes, edges } = db.getData();
+    metrics.nodes = nodes.filter((node) => !node.isGroup).length;
+    metrics.edges = edges.length;
+    metrics.subgraphDepth = getGroupDepth(nodes);
+  }
+  if (typeof db.getActors === 'function') {
+    metrics.participants = db.getActors().size;
+  }
+  return metrics;
+}
+
+/**
+ * Check whether any limit that needs the diagram database is set
+ */
+export function hasDbLimits(limits: ComplexityLimits): boolean {
+  return DB_LIMITS.some((limit) => limits[limit] !== undefined);
+}
+
+/**
+ * Compare measured metrics against the configured limits
+ */
+export function findLimitViolations(
+  metrics: DiagramMetrics,
+  limits: ComplexityLimits
+): LimitViolation[] {
+  const violations: LimitViolation[] = [];
+
+  for (const [limit, metric] of Object.entries(LIMIT_METRICS) as [
+    keyof ComplexityLimits,
+    keyof DiagramMetrics,
+  ][]) {
+    const max = limits[limit];
+    const actual = metrics[metric];
+    if (max === undefined || actual === undefined || actual <= max) {
+      continue;
+    }
+    violations.push({ limit, actual, max });
+  }
+  return violations;
+}
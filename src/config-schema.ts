@@ -0,0 +1,498 @@
+/**
+ * Known keys and enum values of mermaid's MermaidConfig
+ *
+ * Mirrors the MermaidConfig type shipped with mermaid (config.type.d.ts).
+ * Keys whose value is free-form (strings, numbers, nested objects we do not
+ * check) map to null; enum keys list their allowed values.
+ */
+
+/**
+ * Allowed values of a config key, or null when any value is accepted
+ */
+export type ConfigValue = readonly string[] | null;
+
+/**
+ * Known keys of a config object, either nested schemas or leaf values
+ */
+export interface ConfigSchema {
+  [key: string]: ConfigSchema | ConfigValue;
+}
+
+/**
+ * Build a schema from free-form keys plus enum keys
+ */
+function section(keys: string[], enums: Record<string, readonly string[]>): ConfigSchema {
+  const schema: ConfigSchema = {};
+  for (const key of keys) {
+    schema[key] = null;
+  }
+  return { ...schema, ...enums };
+}
+
+/**
+ * Keys shared by every diagram config (BaseDiagramConfig)
+ */
+const BASE_DIAGRAM_KEYS: string[] = ['useWidth', 'useMaxWidth'];
+
+const TEXT_ALIGN: string[] = ['left', 'center', 'right'];
+const DEFAULT_RENDERERS: string[] = ['dagre-d3', 'dagre-wrapper', 'elk'];
+
+/**
+ * C4 element kinds, each with font and color keys
+ */
+const C4_ELEMENTS: string[] = [
+  'person',
+  'system',
+  'system_db',
+  'system_queue',
+  'container',
+  'container_db',
+  'container_queue',
+  'component',
+  'component_db',
+  'component_queue',
+];
+
+const C4_KEYS: string[] = [
+  'diagramMarginX',
+  'diagramMarginY',
+  'c4ShapeMargin',
+  'c4ShapePadding',
+  'width',
+  'height',
+  'boxMargin',
+  'c4ShapeInRow',
+  'nextLinePaddingX',
+  'c4BoundaryInRow',
+  'wrap',
+  'wrapPadding',
+  ...['boundary', 'message'].flatMap((kind) => [
+    `${kind}FontSize`,
+    `${kind}FontFamily`,
+    `${kind}FontWeight`,
+    `${kind}Font`,
+  ]),
+  ...C4_ELEMENTS.flatMap((element) =>
+    [element, `external_${element}`].flatMap((kind) => [
+      `${kind}FontSize`,
+      `${kind}FontFamily`,
+      `${kind}FontWeight`,
+      `${kind}Font`,
+      `${kind}_bg_color`,
+      `${kind}_border_color`,
+    ])
+  ),
+];
+
+/**
+ * Layout algorithms registered by mermaid and its official layout packages
+ */
+export const MERMAID_LAYOUTS: readonly string[] = [
+  'dagre',
+  'cose-bilkent',
+  'elk',
+  'elk.stress',
+  'elk.force',
+  'elk.mrtree',
+  'elk.sporeOverlap',
+  'tidy-tree',
+];
+
+/**
+ * Diagram-specific config sections
+ */
+const DIAGRAM_SECTIONS: Record<string, ConfigSchema> = {
+  flowchart: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'titleTopMargin',
+      'subGraphTitleMargin',
+      'arrowMarkerAbsolute',
+      'diagramPadding',
+      'htmlLabels',
+      'nodeSpacing',
+      'rankSpacing',
+      'padding',
+      'wrappingWidth',
+      'inheritDir',
+    ],
+    {
+      curve: [
+        'basis',
+        'bumpX',
+        'bumpY',
+        'cardinal',
+        'catmullRom',
+        'linear',
+        'monotoneX',
+        'monotoneY',
+        'natural',
+        'step',
+        'stepAfter',
+        'stepBefore',
+      ],
+      defaultRenderer: DEFAULT_RENDERERS,
+    }
+  ),
+  sequence: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'arrowMarkerAbsolute',
+      'hideUnusedParticipants',
+      'activationWidth',
+      'diagramMarginX',
+      'diagramMarginY',
+      'actorMargin',
+      'width',
+      'height',
+      'boxMargin',
+      'boxTextMargin',
+      'noteMargin',
+      'messageMargin',
+      'mirrorActors',
+      'forceMenus',
+      'bottomMarginAdj',
+      'rightAngles',
+      'showSequenceNumbers',
+      'actorFontSize',
+      'actorFontFamily',
+      'actorFontWeight',
+      'noteFontSize',
+      'noteFontFamily',
+      'noteFontWeight',
+      'messageFontSize',
+      'messageFontFamily',
+      'messageFontWeight',
+      'wrap',
+      'wrapPadding',
+      'labelBoxWidth',
+      'labelBoxHeight',
+      'messageFont',
+      'noteFont',
+      'actorFont',
+    ],
+    { messageAlign: TEXT_ALIGN, noteAlign: TEXT_ALIGN }
+  ),
+  gantt: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'titleTopMargin',
+      'barHeight',
+      'barGap',
+      'topPadding',
+      'rightPadding',
+      'leftPadding',
+      'gridLineStartPadding',
+      'fontSize',
+      'sectionFontSize',
+      'numberSectionStyles',
+      'axisFormat',
+      'tickInterval',
+      'topAxis',
+    ],
+    {
+      displayMode: ['', 'compact'],
+      weekday: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'],
+    }
+  ),
+  journey: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'diagramMarginX',
+      'diagramMarginY',
+      'leftMargin',
+      'maxLabelWidth',
+      'width',
+      'height',
+      'boxMargin',
+      'boxTextMargin',
+      'noteMargin',
+      'messageMargin',
+      'bottomMarginAdj',
+      'rightAngles',
+      'taskFontSize',
+      'taskFontFamily',
+      'taskMargin',
+      'activationWidth',
+      'textPlacement',
+      'actorColours',
+      'sectionFills',
+      'sectionColours',
+      'titleColor',
+      'titleFontFamily',
+      'titleFontSize',
+    ],
+    { messageAlign: TEXT_ALIGN }
+  ),
+  timeline: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'diagramMarginX',
+      'diagramMarginY',
+      'leftMargin',
+      'width',
+      'height',
+      'padding',
+      'boxMargin',
+      'boxTextMargin',
+      'noteMargin',
+      'messageMargin',
+      'bottomMarginAdj',
+      'rightAngles',
+      'taskFontSize',
+      'taskFontFamily',
+      'taskMargin',
+      'activationWidth',
+      'textPlacement',
+      'actorColours',
+      'sectionFills',
+      'sectionColours',
+      'disableMulticolor',
+    ],
+    { messageAlign: TEXT_ALIGN }
+  ),
+  class: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'titleTopMargin',
+      'arrowMarkerAbsolute',
+      'dividerMargin',
+      'padding',
+      'textHeight',
+      'nodeSpacing',
+      'rankSpacing',
+      'diagramPadding',
+      'htmlLabels',
+      'hideEmptyMembersBox',
+    ],
+    { defaultRenderer: DEFAULT_RENDERERS }
+  ),
+  state: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'titleTopMargin',
+      'arrowMarkerAbsolute',
+      'dividerMargin',
+      'sizeUnit',
+      'padding',
+      'textHeight',
+      'titleShift',
+      'noteMargin',
+      'nodeSpacing',
+      'rankSpacing',
+      'forkWidth',
+      'forkHeight',
+      'miniPadding',
+      'fontSizeFactor',
+      'fontSize',
+      'labelHeight',
+      'edgeLengthFactor',
+      'compositTitleSize',
+      'radius',
+    ],
+    { defaultRenderer: DEFAULT_RENDERERS }
+  ),
+  er: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'titleTopMargin',
+      'diagramPadding',
+      'minEntityWidth',
+      'minEntityHeight',
+      'entityPadding',
+      'nodeSpacing',
+      'rankSpacing',
+      'stroke',
+      'fill',
+      'fontSize',
+    ],
+    { layoutDirection: ['TB', 'BT', 'LR', 'RL'] }
+  ),
+  pie: section([...BASE_DIAGRAM_KEYS, 'textPosition'], {}),
+  quadrantChart: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'chartWidth',
+      'chartHeight',
+      'titleFontSize',
+      'titlePadding',
+      'quadrantPadding',
+      'xAxisLabelPadding',
+      'yAxisLabelPadding',
+      'xAxisLabelFontSize',
+      'yAxisLabelFontSize',
+      'quadrantLabelFontSize',
+      'quadrantTextTopPadding',
+      'pointTextPadding',
+      'pointLabelFontSize',
+      'pointRadius',
+      'quadrantInternalBorderStrokeWidth',
+      'quadrantExternalBorderStrokeWidth',
+    ],
+    { xAxisPosition: ['top', 'bottom'], yAxisPosition: ['left', 'right'] }
+  ),
+  xyChart: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'width',
+      'height',
+      'titleFontSize',
+      'titlePadding',
+      'showDataLabel',
+      'showTitle',
+      'xAxis',
+      'yAxis',
+      'plotReservedSpacePercent',
+    ],
+    { chartOrientation: ['vertical', 'horizontal'] }
+  ),
+  requirement: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'rect_fill',
+      'text_color',
+      'rect_border_size',
+      'rect_border_color',
+      'rect_min_width',
+      'rect_min_height',
+      'fontSize',
+      'rect_padding',
+      'line_height',
+    ],
+    {}
+  ),
+  architecture: section([...BASE_DIAGRAM_KEYS, 'padding', 'iconSize', 'fontSize'], {}),
+  mindmap: section([...BASE_DIAGRAM_KEYS, 'padding', 'maxNodeWidth', 'layoutAlgorithm'], {}),
+  kanban: section([...BASE_DIAGRAM_KEYS, 'padding', 'sectionWidth', 'ticketBaseUrl'], {}),
+  gitGraph: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'titleTopMargin',
+      'diagramPadding',
+      'nodeLabel',
+      'mainBranchName',
+      'mainBranchOrder',
+      'showCommitLabel',
+      'showBranches',
+      'rotateCommitLabel',
+      'parallelCommits',
+      'arrowMarkerAbsolute',
+    ],
+    {}
+  ),
+  c4: section([...BASE_DIAGRAM_KEYS, ...C4_KEYS], {}),
+  sankey: section([...BASE_DIAGRAM_KEYS, 'width', 'height', 'showValues', 'prefix', 'suffix'], {
+    linkColor: ['source', 'target', 'gradient'],
+    nodeAlignment: ['left', 'right', 'center', 'justify'],
+  }),
+  packet: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'rowHeight',
+      'bitWidth',
+      'bitsPerRow',
+      'showBits',
+      'paddingX',
+      'paddingY',
+    ],
+    {}
+  ),
+  block: section([...BASE_DIAGRAM_KEYS, 'padding'], {}),
+  radar: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'width',
+      'height',
+      'marginTop',
+      'marginRight',
+      'marginBottom',
+      'marginLeft',
+      'axisScaleFactor',
+      'axisLabelFactor',
+      'curveTension',
+    ],
+    {}
+  ),
+  treemap: section(
+    [
+      ...BASE_DIAGRAM_KEYS,
+      'padding',
+      'diagramPadding',
+      'showValues',
+      'nodeWidth',
+      'nodeHeight',
+      'borderWidth',
+      'valueFontSize',
+      'labelFontSize',
+      'valueFormat',
+    ],
+    {}
+  ),
+};
+
+/**
+ * Top-level MermaidConfig keys
+ */
+export const MERMAID_CONFIG_SCHEMA: ConfigSchema = {
+  ...section(
+    [
+      'themeVariables',
+      'themeCSS',
+      'handDrawnSeed',
+      'maxTextSize',
+      'maxEdges',
+      'darkMode',
+      'htmlLabels',
+      'fontFamily',
+      'altFontFamily',
+      'startOnLoad',
+      'arrowMarkerAbsolute',
+      'secure',
+      'legacyMathML',
+      'forceLegacyMathML',
+      'deterministicIds',
+      'deterministicIDSeed',
+      'dompurifyConfig',
+      'wrap',
+      'fontSize',
+      'markdownAutoWrap',
+      'suppressErrorRendering',
+    ],
+    {
+      theme: ['default', 'base', 'dark', 'forest', 'neutral', 'null'],
+      look: ['classic', 'handDrawn'],
+      layout: MERMAID_LAYOUTS,
+      logLevel: ['trace', 'debug', 'info', 'warn', 'error', 'fatal', '0', '1', '2', '3', '4', '5'],
+      securityLevel: ['strict', 'loose', 'antiscript', 'sandbox'],
+    }
+  ),
+  elk: section(['mergeEdges', 'forceNodeModelOrder'], {
+    nodePlacementStrategy: ['SIMPLE', 'NETWORK_SIMPLEX', 'LINEAR_SEGMENTS', 'BRANDES_KOEPF'],
+    cycleBreakingStrategy: [
+      'GREEDY',
+      'DEPTH_FIRST',
+      'INTERACTIVE',
+      'MODEL_ORDER',
+      'GREEDY_MODEL_ORDER',
+    ],
+    considerModelOrder: ['NONE', 'NODES_AND_EDGES', 'PREFER_EDGES', 'PREFER_NODES'],
+  }),
+  ...DIAGRAM_SECTIONS,
+};
+
+/**
+ * Keys of the YAML frontmatter of a diagram
+ */
+export const FRONTMATTER_SCHEMA: ConfigSchema = {
+  title: null,
+  displayMode: null,
+  config: MERMAID_CONFIG_SCHEMA,
+};
+
+/**
+ * Keys of an %%{init: ...}%% directive ("config" applies to the current diagram type)
+ */
+export const INIT_DIRECTIVE_SCHEMA: ConfigSchema = {
+  ...MERMAID_CONFIG_SCHEMA,
+  config: null,
+};
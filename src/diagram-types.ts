@@ -0,0 +1,174 @@
+/**
+ * Diagram types as detected by mermaid
+ *
+ * mermaid.parse() reports the id of the detector that matched a diagram
+ * (e.g. "flowchart-v2" for "flowchart LR"). Users configure types by family
+ * name, so detector ids are grouped into the families they render as.
+ */
+
+/**
+ * Detector ids that belong to a family with a different name
+ */
+const DIAGRAM_TYPE_FAMILIES: Record<string, string> = {
+  'flowchart-v2': 'flowchart',
+  'flowchart-elk': 'flowchart',
+  classDiagram: 'class',
+  stateDiagram: 'state',
+};
+
+/**
+ * Diagram types mermaid still marks as beta (declared with a "-beta" keyword)
+ */
+export const BETA_DIAGRAM_TYPES: readonly string[] = [
+  'architecture',
+  'block',
+  'packet',
+  'radar',
+  'sankey',
+  'treemap',
+  'xychart',
+];
+
+/**
+ * Get the family of a detected diagram type, e.g. "flowchart-v2" -> "flowchart"
+ */
+export function getDiagramFamily(diagramType: string): string {
+  return DIAGRAM_TYPE_FAMILIES[diagramType] ?? diagramType;
+}
+
+/**
+ * Check whether a detected diagram type matches a configured type name,
+ * which may be either the detector id or its family
+ */
+export function matchesDiagramType(diagramType: string, name: string): boolean {
+  return name === diagramType || name === getDiagramFamily(diagramType);
+}
+
+/**
+ * Declaration keywords of detectors whose keyword is not their id
+ * (the internal "error" and "---" detectors declare none)
+ */
+const DETECTOR_KEYWORDS: Record<string, readonly string[]> = {
+  'flowchart-v2': ['flowchart'],
+  flowchart: ['graph'],
+  sequence: ['sequenceDiagram'],
+  class: ['classDiagram'],
+  classDiagram: ['classDiagram-v2'],
+  state: ['stateDiagram'],
+  stateDiagram: ['stateDiagram-v2'],
+  er: ['erDiagram'],
+  requirement: ['requirementDiagram'],
+  c4: ['C4Context', 'C4Container', 'C4Component', 'C4Dynamic', 'C4Deployment'],
+  architecture: ['architecture-beta', 'architecture'],
+  block: ['block-beta', 'block'],
+  packet: ['packet-beta', 'packet'],
+  radar: ['radar-beta'],
+  sankey: ['sankey-beta', 'sankey'],
+  treemap: ['treemap-beta', 'treemap'],
+  xychart: ['xychart-beta', 'xychart'],
+  error: [],
+  '---': [],
+};
+
+/**
+ * Collect the declaration keywords of registered detectors, mapped to the
+ * detector each one selects. Keywords the mermaid build does not detect
+ * (e.g. a "-beta" keyword it has dropped) are left out.
+ */
+export function collectDiagramKeywords(
+  detectorIds: readonly string[],
+  detectType: (text: string) => string
+): Map<string, string> {
+  return probeDiagramKeywords(
+    detectorIds.flatMap((id) => DETECTOR_KEYWORDS[id] ?? [id]),
+    detectType
+  );
+}
+
+/**
+ * Map each keyword a mermaid build detects to the detector it selects,
+ * leaving out the keywords it does not detect. Used directly for builds
+ * that cannot list their detectors (mermaid 10 has no
+ * getRegisteredDiagramsMetadata).
+ */
+export function probeDiagramKeywords(
+  candidates: readonly string[],
+  detectType: (text: string) => string
+): Map<string, string> {
+  const keywords = new Map<string, string>();
+  for (const keyword of candidates) {
+    try {
+      keywords.set(keyword, detectType(`${keyword}\n`));
+    } catch {
+      // Not a keyword of this mermaid build
+    }
+  }
+  return keywords;
+}
+
+/**
+ * Declaration keywords of the bundled mermaid build, mapped to the detector
+ * each one selects, for basic mode (which never loads mermaid)
+ */
+export const DIAGRAM_KEYWORDS: ReadonlyMap<string, string> = new Map([
+  ['architecture', 'architecture'],
+  ['architecture-beta', 'architecture'],
+  ['block', 'block'],
+  ['block-beta', 'block'],
+  ['C4Component', 'c4'],
+  ['C4Container', 'c4'],
+  ['C4Context', 'c4'],
+  ['C4Deployment', 'c4'],
+  ['C4Dynamic', 'c4'],
+  ['classDiagram', 'class'],
+  ['classDiagram-v2', 'classDiagram'],
+  ['erDiagram', 'er'],
+  ['flowchart', 'flowchart-v2'],
+  ['flowchart-elk', 'flowchart-elk'],
+  ['gantt', 'gantt'],
+  ['gitGraph', 'gitGraph'],
+  ['graph', 'flowchart'],
+  ['info', 'info'],
+  ['journey', 'journey'],
+  ['kanban', 'kanban'],
+  ['mindmap', 'mindmap'],
+  ['packet', 'packet'],
+  ['packet-beta', 'packet'],
+  ['pie', 'pie'],
+  ['quadrantChart', 'quadrantChart'],
+  ['radar-beta', 'radar'],
+  ['requirementDiagram', 'requirement'],
+  ['sankey', 'sankey'],
+  ['sankey-beta', 'sankey'],
+  ['sequenceDiagram', 'sequence'],
+  ['stateDiagram', 'state'],
+  ['stateDiagram-v2', 'stateDiagram'],
+  ['timeline', 'timeline'],
+  ['treemap', 'treemap'],
+  ['treemap-beta', 'treemap'],
+  ['xychart', 'xychart'],
+  ['xychart-beta', 'xychart'],
+]);
+
+/**
+ * Keywords that open, separate or close blocks, by diagram family
+ */
+export const BLOCK_KEYWORDS: Record<string, readonly string[]> = {
+  flowchart: ['subgraph', 'end', 'direction'],
+  sequence: [
+    'loop',
+    'alt',
+    'else',
+    'opt',
+    'par',
+    'and',
+    'critical',
+    'option',
+    'break',
+    'rect',
+    'box',
+    'end',
+  ],
+  state: ['state', 'note', 'end'],
+  class: ['namespace', 'class'],
+};
@@ -0,0 +1,129 @@
+/**
+ * Scoped browser globals for mermaid
+ *
+ * Mermaid reads window, document and DOMParser from globalThis. Rather than
+ * installing jsdom's for good, which breaks libraries in the same process
+ * that probe `typeof window` to detect a browser, the globals are installed
+ * only while mermaid code runs and the host's own values (or their absence)
+ * are restored as soon as the last overlapping call finishes. jsdom itself
+ * is imported on first use, so code paths that never run mermaid (basic
+ * mode, KaTeX) do not pay for loading it.
+ */
+
+import type { DOMWindow } from 'jsdom';
+
+/**
+ * Globals mermaid needs from the DOM
+ */
+const DOM_GLOBALS = ['window', 'document', 'DOMParser'] as const;
+
+type DomGlobal = (typeof DOM_GLOBALS)[number];
+
+// jsdom window mermaid runs against, created on first use (and retried
+// on the next call if creating it failed)
+let domWindow: Promise<DOMWindow> | null = null;
+
+// Calls running in the scope, and the host's globals they replaced
+let scopeDepth = 0;
+let hostGlobals: Map<DomGlobal, PropertyDescriptor | undefined> = new Map();
+
+/**
+ * Stub the SVG measuring APIs jsdom lacks so mermaid.render can lay out
+ * diagrams. Text is measured at 8px per character; the numbers only need
+ * to be plausible, not exact.
+ */
+function stubSvgMeasurement(window: DOMWindow): void {
+  const textWidth = (element: Element): number =>
+    Math.max(16, (element.textContent ?? '').length * 8);
+
+  Object.assign(window.SVGElement.prototype, {
+    getBBox(this: Element): { x: number; y: number; width: number; height: number } {
+      return { x: 0, y: 0, width: textWidth(this), height: 16 };
+    },
+    getComputedTextLength(this: Element): number {
+      return textWidth(this);
+    },
+    getTotalLength(): number {
+      return 0;
+    },
+    getPointAtLength(): { x: number; y: number } {
+      return { x: 0, y: 0 };
+    },
+  });
+}
+
+/**
+ * Create the minimal DOM environment mermaid runs in
+ */
+async function createDomWindow(): Promise<DOMWindow> {
+  const { JSDOM, VirtualConsole } = await import('jsdom');
+  const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
+    pretendToBeVisual: true,
+    // Silence jsdom's "Not implemented" reports (e.g. canvas) during rendering
+    virtualConsole: new VirtualConsole(),
+  });
+  stubSvgMeasurement(dom.window);
+  return dom.window;
+}
+
+/**
+ * Install the jsdom globals, remembering the host's
+ */
+function enterDomScope(window: DOMWindow): void {
+  scopeDepth++;
+  if (scopeDepth > 1) {
+    return;
+  }
+
+  const values: Record<DomGlobal, unknown> = {
+    window,
+    document: window.document,
+    DOMParser: window.DOMParser,
+  };
+  hostGlobals = new Map(
+    DOM_GLOBALS.map((name) => [name, Object.getOwnPropertyDescriptor(globalThis, name)])
+  );
+  for (const name of DOM_GLOBALS) {
+    Object.defineProperty(globalThis, name, {
+      value: values[name],
+      configurable: true,
+      writable: true,
+    });
+  }
+}
+
+/**
+ * Restore the host's globals once no call needs the jsdom ones
+ */
+function leaveDomScope(): void {
+  scopeDepth--;
+  if (scopeDepth > 0) {
+    return;
+  }
+
+  for (const [name, descriptor] of hostGlobals) {
+    if (descriptor) {
+      Object.defineProperty(globalThis, name, descriptor);
+    } else {
+      delete (globalThis as Record<string, unknown>)[name];
+    }
+  }
+  hostGlobals = new Map();
+}
+
+/**
+ * Run code that needs mermaid's browser globals, which are only visible
+ * until it settles (and while other calls overlap it)
+ */
+export async function withDom<T>(run: () => Promise<T> | T): Promise<T> {
+  domWindow ??= createDomWindow().catch((error: unknown) => {
+    domWindow = null;
+    throw error;
+  });
+  enterDomScope(await domWindow);
+  try {
+    return await run();
+  } finally {
+    leaveDomScope();
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * Stable codes of the diagnostics the rules report
+ *
+ * Messages may be reworded between releases; codes may not. Every error
+ * carries one, so it can be searched for, documented, suppressed (by
+ * directive or the ignoreCodes option) and counted. Mermaid codes start with
+ * MMD-, KaTeX codes with KTX-.
+ */
+
+import type { AccessibilityCheck } from './accessibility.js';
+import type { ComplexityLimits } from './complexity.js';
+import type { SecurityCheck } from './security.js';
+import type { SemanticCheck } from './semantics.js';
+import type { StyleCheck } from './style.js';
+
+/**
+ * Catalog entry of an error code
+ */
+export interface ErrorCodeInfo {
+  /** What the diagnostic reports */
+  description: string;
+  /** Diagram or expression that triggers it */
+  example: string;
+}
+
+/**
+ * Every code the rules report
+ */
+export const ERROR_CODES: Record<string, ErrorCodeInfo> = {
+  // Mermaid syntax: unclosed node shapes
+  'MMD-UNCLOSED-BRACKET': {
+    description: 'A square bracket node shape is not closed',
+    example: 'flowchart LR\n  A --> [B',
+  },
+  'MMD-UNCLOSED-PAREN': {
+    description: 'A round node shape is not closed',
+    example: 'flowchart LR\n  A --> (B',
+  },
+  'MMD-UNCLOSED-BRACE': {
+    description: 'A diamond or hexagon node shape is not closed',
+    example: 'flowchart LR\n  A --> {B',
+  },
+  'MMD-UNCLOSED-SUBROUTINE': {
+    description: 'A subroutine node shape ([[...]]) is not closed',
+    example: 'flowchart LR\n  A --> [[B',
+  },
+  'MMD-UNCLOSED-STADIUM': {
+    description: 'A stadium node shape (([...])) is not closed',
+    example: 'flowchart LR\n  A --> ([B',
+  },
+  'MMD-UNCLOSED-CYLINDER': {
+    description: 'A cylinder node shape ([(...)]) is not closed',
+    example: 'flowchart LR\n  A --> [(B',
+  },
+  'MMD-UNCLOSED-DOUBLE-CIRCLE': {
+    description: 'A double circle node shape (((...))) is not closed',
+    example: 'flowchart LR\n  A --> (((B',
+  },
+  'MMD-UNCLOSED-TRAPEZOID': {
+    description: 'A trapezoid node shape ([/.../]) is not closed',
+    example: 'flowchart LR\n  A --> [/B',
+  },
+  'MMD-UNCLOSED-INV-TRAPEZOID': {
+    description: 'An inverse trapezoid node shape ([\\...\\]) is not closed',
+    example: 'flowchart LR\n  A --> [\\B',
+  },
+  'MMD-UNCLOSED-ASYMMETRIC': {
+    description: 'An asymmetric node shape (>...]) is not closed',
+    example: 'flowchart LR\n  A --> >B',
+  },
+
+  // Mermaid syntax: block structure
+  'MMD-UNCLOSED-BLOCK': {
+    description: 'A subgraph, loop, alt, opt, par, critical, rect or state block has no "end"',
+    example: 'flowchart LR\n  subgraph one\n    A --> B',
+  },
+  'MMD-UNCLOSED-STRUCT': {
+    description: 'A class body or namespace is not closed with }',
+    example: 'classDiagram\n  class Animal {\n    +name',
+  },
+  'MMD-INVALID-STRUCT': {
+    description: 'A class body is opened where it is not allowed',
+    example: 'classDiagram\n  class {',
+  },
+
+  // Mermaid syntax: statements
+  'MMD-UNEXPECTED-TEXT': {
+    description: 'Text appears where an arrow or keyword was expected',
+    example: 'flowchart LR\n  A B',
+  },
+  'MMD-INCOMPLETE-STATEMENT': {
+    description: 'A statement ends before its required parts, such as a message text',
+    example: 'sequenceDiagram\n  Alice->>Bob',
+  },
+  'MMD-UNEXPECTED-EOF': {
+    description: 'The diagram ends in the middle of a statement',
+    example: 'flowchart LR\n  A -->',
+  },
+  'MMD-MISSING-LINK-SOURCE': {
+    description: 'A link has no source node',
+    example: 'flowchart LR\n  A --> B --> -->',
+  },
+  'MMD-INVALID-PARTICIPANT': {
+    description: 'A note or statement refers to a participant in an invalid way',
+    example: 'sequenceDiagram\n  Note right Alice: text',
+  },
+  'MMD-MISSING-MESSAGE-TEXT': {
+    description: 'A sequence message or note is missing its participant or text',
+    example: 'sequenceDiagram\n  Note over : text',
+  },
+  'MMD-INVALID-ER-RELATIONSHIP': {
+    description: 'An ER relationship is malformed',
+    example: 'erDiagram\n  CUSTOMER -- ORDER : places',
+  },
+  'MMD-INVALID-ER-CARDINALITY': {
+    description: 'An ER relationship uses unknown cardinality symbols',
+    example: 'erDiagram\n  CUSTOMER ||--o{ ORDER ||',
+  },
+  'MMD-INVALID-ER-ATTRIBUTES': {
+    description: 'An ER attribute block is malformed',
+    example: 'erDiagram\n  CUSTOMER {\n    string\n  }',
+  },
+  'MMD-INVALID-STATE-TRANSITION': {
+    description: 'A state transition is malformed',
+    example: 'stateDiagram-v2\n  A -> B',
+  },
+  'MMD-INVALID-TASK-DATA': {
+    description: 'A gantt task has malformed data after the colon',
+    example: 'gantt\n  section Build\n  :a1',
+  },
+  'MMD-INVALID-GENERIC': {
+    description: 'A class generic type is malformed',
+    example: 'classDiagram\n  class List~T',
+  },
+  'MMD-INVALID-STYLE': {
+    description: 'A style or class assignment is malformed',
+    example: 'classDiagram\n  A <|-- B :::',
+  },
+  'MMD-INVALID-COMMIT-REF': {
+    description:
+      'A git graph commit reference is malformed (mermaid versions with the Jison git graph parser)',
+    example: 'gitGraph\n  commit id:',
+  },
+  'MMD-INVALID-COMMIT-TAG': {
+    description:
+      'A git graph commit tag is malformed (mermaid versions with the Jison git graph parser)',
+    example: 'gitGraph\n  commit tag:',
+  },
+  'MMD-UNEXPECTED-TOKEN': {
+    description: 'The parser met a token it has no specific hint for',
+    example: 'flowchart LR\n  A --> B\n  end',
+  },
+  'MMD-PARSE-ERROR': {
+    description: 'Mermaid rejected the diagram with an error the rule does not recognize',
+    example: 'mindmap\n  root\nsecond',
+  },
+  'MMD-LEXICAL-ERROR': {
+    description: 'The lexer met text that is no token of the diagram type',
+    example: 'classDiagram\n  Animal {',
+  },
+  'MMD-UNKNOWN-DIAGRAM-TYPE': {
+    description: 'The first statement names no diagram type mermaid knows',
+    example: 'flowchar LR\n  A --> B',
+  },
+  'MMD-MISSING-DIAGRAM-TYPE': {
+    description: 'The diagram does not start with a diagram type (basic mode)',
+    example: '{ "mode": "basic" } with --> B',
+  },
+  'MMD-UNEXPECTED-CHARACTER': {
+    description: 'A character is not valid at this position (Langium-based diagrams)',
+    example: 'pie\n  "A" : 1 ?',
+  },
+  'MMD-EXPECTED-TOKEN': {
+    description: 'A required token is missing (Langium-based diagrams)',
+    example: 'pie\n  "A" :',
+  },
+  'MMD-INVALID-SYNTAX': {
+    description: 'A statement matches none of the allowed forms (Langium-based diagrams)',
+    example: 'gitGraph\n  checkout',
+  },
+  'MMD-EMPTY': {
+    description: 'The diagram has no content',
+    example: '',
+  },
+  'MMD-RENDER-FAILED': {
+    description: 'The diagram parses but fails to render (render mode)',
+    example: 'gantt\n  dateFormat YYYY-MM-DD\n  Task :a1, 2024-13-45, 3d',
+  },
+  'MMD-MODULE-LOAD-FAILED': {
+    description: 'The mermaid build set by mermaidModule cannot be loaded',
+    example: '{ "mermaidModule": "./missing-mermaid" }',
+  },
+  'MMD-WORKER-FAILED': {
+    description: 'A validation worker thread failed',
+    example: '{ "workers": 2 }',
+  },
+  'MMD-TIMEOUT': {
+    description: 'Validating the diagram took longer than timeoutMs',
+    example: '{ "timeoutMs": 1000 }',
+  },
+  'MMD-INPUT-TOO-LARGE': {
+    description: 'The diagram is longer than maxInputSize and was not parsed',
+    example: '{ "maxInputSize": 100000 }',
+  },
+
+  // Mermaid config
+  'MMD-UNKNOWN-CONFIG-KEY': {
+    description: 'Frontmatter or an init directive sets a key mermaid does not know',
+    example: '%%{init: {"them": "dark"}}%%\nflowchart LR\n  A --> B',
+  },
+  'MMD-INVALID-CONFIG-VALUE': {
+    description: 'A config key is set to a value outside its allowed values',
+    example: '%%{init: {"theme": "drak"}}%%\nflowchart LR\n  A --> B',
+  },
+  'MMD-INVALID-FRONTMATTER': {
+    description: 'The frontmatter is not valid YAML',
+    example: '---\nconfig: [\n---\nflowchart LR\n  A --> B',
+  },
+  'MMD-INVALID-DIRECTIVE': {
+    description: 'An init directive is not valid JSON',
+    example: '%%{init: {"theme": }}%%\nflowchart LR\n  A --> B',
+  },
+  'MMD-IGNORED-CONFIG': {
+    description: 'The profile platform ignores frontmatter and directives',
+    example: '{ "profile": "azure-devops" } with %%{init: {"theme": "dark"}}%%',
+  },
+
+  // Mermaid diagram types
+  'MMD-TYPE-NOT-ALLOWED': {
+    description: 'The diagram type is not in allowedTypes',
+    example: '{ "allowedTypes": ["flowchart"] } with a sequenceDiagram',
+  },
+  'MMD-TYPE-UNSUPPORTED': {
+    description: 'The profile platform does not render the diagram type',
+    example: '{ "profile": "azure-devops" } with a mindmap',
+  },
+  'MMD-TYPE-DISALLOWED': {
+    description: 'The diagram type is in disallowedTypes',
+    example: '{ "disallowedTypes": ["pie"] } with a pie chart',
+  },
+  'MMD-BETA-TYPE': {
+    description: 'The diagram type is still beta and disallowBeta is set',
+    example: '{ "disallowBeta": true } with a sankey-beta diagram',
+  },
+
+  // Mermaid complexity limits
+  'MMD-TOO-MANY-LINES': {
+    description: 'The diagram has more lines than maxLines',
+    example: '{ "maxLines": 100 }',
+  },
+  'MMD-TEXT-TOO-LARGE': {
+    description: 'The diagram has more characters than maxTextSize',
+    example: '{ "maxTextSize": 50000 }',
+  },
+  'MMD-TOO-MANY-NODES': {
+    description: 'The diagram has more nodes than maxNodes',
+    example: '{ "maxNodes": 50 }',
+  },
+  'MMD-TOO-MANY-EDGES': {
+    description: 'The diagram has more edges than maxEdges',
+    example: '{ "maxEdges": 100 }',
+  },
+  'MMD-SUBGRAPH-TOO-DEEP': {
+    description: 'Subgraphs or composite states nest deeper than maxSubgraphDepth',
+    example: '{ "maxSubgraphDepth": 3 }',
+  },
+  'MMD-TOO-MANY-PARTICIPANTS': {
+    description: 'The sequence diagram has more participants than maxParticipants',
+    example: '{ "maxParticipants": 8 }',
+  },
+
+  // Mermaid semantic checks
+  'MMD-UNDEFINED-REFERENCE': {
+    description:
+      'A class, style, click or linkStyle statement refers to a node that does not exist',
+    example: 'flowchart LR\n  A --> B\n  class C important',
+  },
+  'MMD-UNUSED-CLASSDEF': {
+    description: 'A classDef is never assigned to a node',
+    example: 'flowchart LR\n  A --> B\n  classDef important fill:#f00',
+  },
+  'MMD-LINKSTYLE-OUT-OF-RANGE': {
+    description: 'linkStyle refers to a link index the diagram does not have',
+    example: 'flowchart LR\n  A --> B\n  linkStyle 3 stroke:#f00',
+  },
+  'MMD-UNBALANCED-ACTIVATION': {
+    description: 'A participant is deactivated without being active, or left active',
+    example: 'sequenceDiagram\n  Alice->>Bob: Hi\n  deactivate Bob',
+  },
+  'MMD-UNDECLARED-PARTICIPANT': {
+    description: 'A sequence diagram actor is used without participant or actor',
+    example: 'sequenceDiagram\n  participant Alice\n  Alice->>Bob: Hi',
+  },
+  'MMD-UNKNOWN-NOTE-ACTOR': {
+    description: 'A note refers to a participant that sends and receives no messages',
+    example: 'sequenceDiagram\n  Alice->>Bob: Hi\n  Note over Carol: text',
+  },
+
+  // Mermaid accessibility
+  'MMD-ACC-TITLE': {
+    description: 'The diagram has no accessible title, or a placeholder one',
+    example: 'flowchart LR\n  A --> B',
+  },
+  'MMD-ACC-DESCR': {
+    description: 'The diagram has no accessible description, or a placeholder or short one',
+    example: 'flowchart LR\n  accTitle: Flow\n  A --> B',
+  },
+
+  // Mermaid style
+  'MMD-STYLE-HEADER': {
+    description: 'The flowchart header keyword is not the preferred one',
+    example: 'graph LR\n  A --> B',
+  },
+  'MMD-STYLE-DIRECTION': {
+    description: 'The top-down direction is not spelled the preferred way',
+    example: 'flowchart TB\n  A --> B',
+  },
+  'MMD-STYLE-INDENT': {
+    description: 'A line is not indented by a multiple of the preferred width',
+    example: 'flowchart LR\n   A --> B',
+  },
+  'MMD-STYLE-QUOTED-LABELS': {
+    description: 'A node label is not quoted the preferred way',
+    example: 'flowchart LR\n  A[Start] --> B',
+  },
+  'MMD-STYLE-ARROW': {
+    description: 'An arrow is not one of the allowed arrows',
+    example: '{ "arrows": { "flowchart": ["-->"] } } with A -.-> B',
+  },
+
+  // Mermaid security
+  'MMD-UNSAFE-URL': {
+    description: 'A link or click URL uses a scheme outside allowedSchemes',
+    example: 'flowchart LR\n  A --> B\n  click A "javascript:alert(1)"',
+  },
+  'MMD-CALLBACK': {
+    description: 'A click statement calls a JavaScript function',
+    example: 'flowchart LR\n  A --> B\n  click A callback',
+  },
+  'MMD-UNSAFE-HTML': {
+    description: 'A label contains a script-capable HTML element or event handler attribute',
+    example: 'flowchart LR\n  A["<img src=x onerror=alert(1)>"]',
+  },
+  'MMD-LOOSE-SECURITY-LEVEL': {
+    description: 'The diagram sets securityLevel to loose',
+    example: '%%{init: {"securityLevel": "loose"}}%%\nflowchart LR\n  A --> B',
+  },
+
+  // KaTeX
+  'KTX-UNDEFINED-CS': {
+    description: 'A command (control sequence) KaTeX does not know',
+    example: '\\fracc{1}{2}',
+  },
+  'KTX-UNCLOSED-BRACE': {
+    description: 'A brace group is not closed',
+    example: 'x_{1',
+  },
+  'KTX-MISSING-ARGUMENT': {
+    description: 'A command is missing a required argument',
+    example: '\\sqrt',
+  },
+  'KTX-UNEXPECTED-END': {
+    description: 'The expression ends before it is complete',
+    example: '\\frac{1}{2',
+  },
+  'KTX-PARSE-ERROR': {
+    description: 'KaTeX rejected the expression with an error the rule has no hint for',
+    example: '\\left( x',
+  },
+  'KTX-EMPTY': {
+    description: 'The math block has no content',
+    example: '',
+  },
+};
+
+/**
+ * Checks whose errors all share one code
+ */
+type CodedCheck = SemanticCheck | AccessibilityCheck | StyleCheck | SecurityCheck;
+
+const CHECK_CODES: Record<CodedCheck, string> = {
+  undefinedReference: 'MMD-UNDEFINED-REFERENCE',
+  unusedClassDef: 'MMD-UNUSED-CLASSDEF',
+  linkStyleIndex: 'MMD-LINKSTYLE-OUT-OF-RANGE',
+  activationBalance: 'MMD-UNBALANCED-ACTIVATION',
+  undeclaredParticipant: 'MMD-UNDECLARED-PARTICIPANT',
+  noteActor: 'MMD-UNKNOWN-NOTE-ACTOR',
+  accTitle: 'MMD-ACC-TITLE',
+  accDescr: 'MMD-ACC-DESCR',
+  header: 'MMD-STYLE-HEADER',
+  direction: 'MMD-STYLE-DIRECTION',
+  indent: 'MMD-STYLE-INDENT',
+  quotedLabels: 'MMD-STYLE-QUOTED-LABELS',
+  arrow: 'MMD-STYLE-ARROW',
+  url: 'MMD-UNSAFE-URL',
+  callback: 'MMD-CALLBACK',
+  html: 'MMD-UNSAFE-HTML',
+  securityLevel: 'MMD-LOOSE-SECURITY-LEVEL',
+};
+
+/**
+ * Codes of the complexity limits
+ */
+export const LIMIT_CODES: Record<keyof ComplexityLimits, string> = {
+  maxLines: 'MMD-TOO-MANY-LINES',
+  maxTextSize: 'MMD-TEXT-TOO-LARGE',
+  maxNodes: 'MMD-TOO-MANY-NODES',
+  maxEdges: 'MMD-TOO-MANY-EDGES',
+  maxSubgraphDepth: 'MMD-SUBGRAPH-TOO-DEEP',
+  maxParticipants: 'MMD-TOO-MANY-PARTICIPANTS',
+};
+
+/**
+ * Get the code of a semantic, accessibility, style or security check
+ */
+export function codeForCheck(check: CodedCheck): string {
+  return CHECK_CODES[check];
+}
@@ -0,0 +1,182 @@
+/**
+ * File selection for the mermaid-lint CLI
+ *
+ * Expands the paths, directories and glob patterns given on the command line
+ * into the files to lint. Globs support `*`, `**`, `?`, `[...]` and `{a,b}`;
+ * patterns starting with `!` exclude files. Directories are searched for the
+ * extensions the CLI lints, skipping node_modules and .git.
+ */
+
+import { readdirSync, statSync } from 'node:fs';
+import { isAbsolute, join, relative, resolve, sep } from 'node:path';
+
+/**
+ * Directories never searched
+ */
+const IGNORED_DIRECTORIES: readonly string[] = ['node_modules', '.git'];
+
+const GLOB_CHARACTERS = /[*?[{]/;
+
+/**
+ * Files a list of patterns selects
+ */
+export interface FileSelection {
+  /** Selected files, relative to the working directory, in sorted order */
+  files: string[];
+  /** Patterns that matched no file */
+  unmatched: string[];
+}
+
+/**
+ * Convert a glob pattern into a regular expression matching whole paths
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inBraces = false;
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (pattern.startsWith('**/', index)) {
+      source += '(?:.*/)?';
+      index += 2;
+    } else if (pattern.startsWith('**', index)) {
+      source += '.*';
+      index += 1;
+    } else if (char === '[' && pattern.includes(']', index + 1)) {
+      const end = pattern.indexOf(']', index + 1);
+      source += `[${pattern.slice(index + 1, end).replace(/^!/, '^')}]`;
+      index = end;
+    } else {
+      source += globCharacter(char, inBraces);
+      inBraces = (inBraces || char === '{') && char !== '}';
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Regular expression source for a single glob character
+ */
+function globCharacter(char: string, inBraces: boolean): string {
+  switch (char) {
+    case '*':
+      return '[^/]*';
+    case '?':
+      return '[^/]';
+    case '{':
+      return '(?:';
+    case '}':
+      return ')';
+    case ',':
+      return inBraces ? '|' : ',';
+    default:
+      return char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+  }
+}
+
+/**
+ * Convert a path to the forward-slash form globs are matched against
+ */
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
+
+/**
+ * List the files under a directory, recursively
+ */
+function walk(directory: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory() && !IGNORED_DIRECTORIES.includes(entry.name)) {
+      files.push(...walk(path));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Type of the file system entry at a path, or null when there is none
+ */
+function entryType(path: string): 'file' | 'directory' | null {
+  try {
+    const stats = statSync(path);
+    return stats.isDirectory() ? 'directory' : 'file';
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files a single pattern selects, relative to the working directory (or
+ * absolute, for an absolute pattern)
+ */
+function selectFiles(pattern: string, cwd: string, extensions: readonly string[]): string[] {
+  const normalized = toPosix(pattern).replace(/^\.\//, '');
+  const display = (file: string): string =>
+    toPosix(isAbsolute(normalized) ? file : relative(cwd, file));
+  const hasExtension = (file: string): boolean =>
+    extensions.some((extension) => file.toLowerCase().endsWith(extension));
+
+  if (!GLOB_CHARACTERS.test(normalized)) {
+    const type = entryType(resolve(cwd, normalized));
+    if (type === 'directory') {
+      return walk(resolve(cwd, normalized)).map(display).filter(hasExtension);
+    }
+    return type === 'file' ? [normalized] : [];
+  }
+
+  // Search from the directory before the first glob character
+  const base = resolve(
+    cwd,
+    normalized.slice(0, normalized.search(GLOB_CHARACTERS)).replace(/[^/]*$/, '')
+  );
+  if (entryType(base) !== 'directory') {
+    return [];
+  }
+  const matcher = globToRegExp(normalized);
+  return walk(base)
+    .map(display)
+    .filter((file) => matcher.test(file));
+}
+
+/**
+ * Regular expression matching the files an exclude pattern removes: the
+ * files it matches and the files in the directories it matches
+ */
+function excludeMatcher(pattern: string): RegExp {
+  const matcher = globToRegExp(toPosix(pattern).replace(/^\.\//, '').replace(/\/$/, ''));
+  return new RegExp(`${matcher.source.slice(0, -1)}(?:/.*)?$`);
+}
+
+/**
+ * Expand paths, directories and glob patterns into the files to lint
+ */
+export function expandFilePatterns(
+  patterns: readonly string[],
+  cwd: string,
+  extensions: readonly string[]
+): FileSelection {
+  const selected = new Set<string>();
+  const unmatched: string[] = [];
+
+  for (const pattern of patterns.filter((candidate) => !candidate.startsWith('!'))) {
+    const files = selectFiles(pattern, cwd, extensions);
+    if (files.length === 0) {
+      unmatched.push(pattern);
+    }
+    for (const file of files) {
+      selected.add(file);
+    }
+  }
+
+  const excludes = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => excludeMatcher(pattern.slice(1)));
+  const files = [...selected].filter((file) => !excludes.some((exclude) => exclude.test(file)));
+
+  return { files: files.sort(), unmatched };
+}
@@ -0,0 +1,192 @@
+/**
+ * Autofix candidates for common Mermaid mistakes
+ *
+ * Each candidate rewrites a single line of the diagram. Candidates are only
+ * suggestions: the rule re-validates them with the mermaid parser before
+ * offering one to markdownlint as fixInfo.
+ */
+
+/**
+ * Replacement for one line of diagram code
+ */
+export interface FixCandidate {
+  /** 1-based line in the diagram code */
+  line: number;
+  /** New text for the line (may contain newlines to append lines after it) */
+  text: string;
+}
+
+/**
+ * Lines that open a block closed by "end" (flowchart subgraphs, sequence blocks)
+ */
+const BLOCK_START_PATTERN = /^(\s*)(?:subgraph|loop|alt|opt|par|critical|break|rect|box)\b/;
+const BLOCK_END_PATTERN = /^\s*end\s*$/;
+
+/**
+ * Closing characters for node shape openers
+ */
+const SHAPE_CLOSERS: Record<string, string> = {
+  '[': ']',
+  '(': ')',
+  '{': '}',
+};
+
+/**
+ * Sequence message without the ":" before its text, e.g. "Alice->>Bob Hello"
+ */
+const MESSAGE_WITHOUT_COLON_PATTERN =
+  /^(\s*[^\s:]+?\s*(?:<<)?--?(?:>>|>|x|\))[+-]?\s*[^\s:]+)\s+([^\s:][^:]*)$/;
+
+/**
+ * Typographic characters that mermaid does not accept as syntax
+ */
+const ASCII_REPLACEMENTS: Record<string, string> = {
+  '“': '"',
+  '”': '"',
+  '„': '"',
+  '‘': "'",
+  '’': "'",
+  '→': '-->',
+  '⟶': '-->',
+  '⇒': '==>',
+  '－': '-',
+  '＜': '<',
+  '＝': '=',
+  '＞': '>',
+};
+
+const NON_ASCII_SYNTAX_PATTERN: RegExp = new RegExp(
+  `[${Object.keys(ASCII_REPLACEMENTS).join('')}]`,
+  'g'
+);
+
+/**
+ * Append "end" for every block that is still open at the end of the diagram
+ */
+function appendMissingEnds(lines: string[]): FixCandidate | null {
+  const openIndents: string[] = [];
+
+  for (const line of lines) {
+    if (BLOCK_END_PATTERN.test(line)) {
+      openIndents.pop();
+      continue;
+    }
+    const match = line.match(BLOCK_START_PATTERN);
+    if (match) {
+      openIndents.push(match[1]);
+    }
+  }
+
+  if (openIndents.length === 0) {
+    return null;
+  }
+
+  let last = lines.length - 1;
+  while (last > 0 && lines[last].trim() === '') {
+    last--;
+  }
+  const ends = openIndents
+    .reverse()
+    .map((indent) => `\n${indent}end`)
+    .join('');
+  return { line: last + 1, text: lines[last] + ends };
+}
+
+/**
+ * Get the closing characters missing from a line, ignoring quoted text
+ */
+function getMissingClosers(line: string): string {
+  const expected: string[] = [];
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+      continue;
+    }
+    // Brackets inside quoted labels are text
+    if (quoted) {
+      continue;
+    }
+    if (SHAPE_CLOSERS[char]) {
+      expected.push(SHAPE_CLOSERS[char]);
+    } else if (char === expected[expected.length - 1]) {
+      expected.pop();
+    }
+  }
+
+  return expected.reverse().join('');
+}
+
+/**
+ * Close the first node shape left open at the end of its line
+ */
+function closeUnclosedShape(lines: string[]): FixCandidate | null {
+  for (const [index, line] of lines.entries()) {
+    const trimmed = line.trim();
+    // Skip comments and "class X {" / "state X {" block openers
+    if (trimmed.startsWith('%%') || trimmed.endsWith('{')) {
+      continue;
+    }
+    const closers = getMissingClosers(line);
+    if (closers) {
+      return { line: index + 1, text: line.trimEnd() + closers };
+    }
+  }
+  return null;
+}
+
+/**
+ * Add the ":" between a sequence message's arrow target and its text
+ */
+function insertMissingColon(lines: string[]): FixCandidate | null {
+  const header = lines.find((line) => line.trim() && !line.trim().startsWith('%%'));
+  if (!header?.trim().startsWith('sequenceDiagram')) {
+    return null;
+  }
+
+  for (const [index, line] of lines.entries()) {
+    const match = line.match(MESSAGE_WITHOUT_COLON_PATTERN);
+    if (match) {
+      return { line: index + 1, text: `${match[1]}: ${match[2]}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace smart quotes and full-width arrows with their ASCII equivalents
+ */
+function replaceNonAsciiSyntax(lines: string[]): FixCandidate | null {
+  const index = lines.findIndex((line) => line.search(NON_ASCII_SYNTAX_PATTERN) !== -1);
+  if (index === -1) {
+    return null;
+  }
+  return {
+    line: index + 1,
+    text: lines[index].replace(NON_ASCII_SYNTAX_PATTERN, (char) => ASCII_REPLACEMENTS[char]),
+  };
+}
+
+/**
+ * Get autofix candidates for a diagram, most specific first
+ */
+export function getFixCandidates(code: string): FixCandidate[] {
+  const lines = code.split('\n');
+  const candidates = [
+    appendMissingEnds(lines),
+    closeUnclosedShape(lines),
+    insertMissingColon(lines),
+    replaceNonAsciiSyntax(lines),
+  ];
+  return candidates.filter((candidate): candidate is FixCandidate => candidate !== null);
+}
+
+/**
+ * Apply a fix candidate to diagram code
+ */
+export function applyFixCandidate(code: string, candidate: FixCandidate): string {
+  const lines = code.split('\n');
+  lines[candidate.line - 1] = candidate.text;
+  return lines.join('\n');
+}
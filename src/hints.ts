@@ -0,0 +1,113 @@
+/**
+ * User-defined hints
+ *
+ * Teams can replace the message or hint of a parser error, either by the
+ * token the mermaid parser did not expect or by a regular expression matched
+ * against the raw error text of mermaid or KaTeX. Entries are templates:
+ * {message} and {hint} stand for the built-in text, {token} for the
+ * unexpected token and {1}, {2}, ... for the capture groups of the pattern.
+ * Error codes never change, so ignoreCodes and suppressions keep working.
+ */
+
+import { fillTemplate, type MessageParams } from './messages.js';
+
+/**
+ * Replacement message and hint (omitted parts keep the built-in text)
+ */
+export interface HintEntry {
+  message?: string;
+  hint?: string;
+}
+
+/**
+ * Entry applied to errors whose raw text matches a regular expression
+ */
+export interface PatternHint extends HintEntry {
+  /** Regular expression, e.g. "Expecting 'SQE'" */
+  pattern: string;
+  /** Regular expression flags, e.g. "i" */
+  flags?: string;
+}
+
+/**
+ * Hints for the KaTeX rule
+ */
+export interface KatexHints {
+  /** Checked in order; the first matching pattern applies */
+  patterns?: PatternHint[];
+}
+
+/**
+ * Hints for the mermaid rule
+ */
+export interface MermaidHints extends KatexHints {
+  /** Entries by parser token (e.g. "SQS"), merged over the built-in hints */
+  tokens?: Record<string, HintEntry>;
+}
+
+/**
+ * Message and hint of an error, with the token the parser did not expect
+ */
+export interface HintedText {
+  message: string;
+  hint: string | null;
+  token?: string;
+}
+
+/**
+ * Compile the regular expression of a pattern entry
+ */
+function compilePattern({ pattern, flags }: PatternHint): RegExp {
+  try {
+    return new RegExp(pattern, flags);
+  } catch (error) {
+    throw new Error(
+      `Invalid hint pattern '${pattern}': ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Check that every pattern compiles, so a broken pattern fails when the rule
+ * starts rather than when an error first reaches it
+ */
+export function checkHints(hints: KatexHints | undefined): void {
+  for (const entry of hints?.patterns ?? []) {
+    compilePattern(entry);
+  }
+}
+
+/**
+ * Replace the parts of a text an entry defines
+ */
+function applyEntry<T extends HintedText>(text: T, entry: HintEntry, params: MessageParams): T {
+  const builtIn: MessageParams = { ...params, message: text.message, hint: text.hint ?? '' };
+  return {
+    ...text,
+    message: entry.message === undefined ? text.message : fillTemplate(entry.message, builtIn),
+    hint: entry.hint === undefined ? text.hint : fillTemplate(entry.hint, builtIn),
+  };
+}
+
+/**
+ * Apply the token entry of an error, then the first pattern matching its raw text
+ */
+export function applyHints<T extends HintedText>(
+  text: T,
+  errorMessage: string,
+  hints: MermaidHints | undefined
+): T {
+  const token = text.token ?? '';
+  const tokenEntry = text.token === undefined ? undefined : hints?.tokens?.[text.token];
+  let hinted = tokenEntry ? applyEntry(text, tokenEntry, { token }) : text;
+
+  for (const entry of hints?.patterns ?? []) {
+    const match = errorMessage.match(compilePattern(entry));
+    if (match) {
+      const groups = Object.fromEntries(match.map((group, index) => [index, group ?? '']));
+      hinted = applyEntry(hinted, entry, { ...groups, token });
+      break;
+    }
+  }
+  return hinted;
+}
@@ -5,9 +5,113 @@
  * Also includes KaTeX math validation rule
  */
 
-import { JSDOM } from 'jsdom';
+import { extname } from 'node:path';
 import katex, { type KatexOptions } from 'katex';
-import { err, errAsync, ok, type Result, ResultAsync } from 'neverthrow';
+import { err, errAsync, ok, okAsync, type Result, ResultAsync } from 'neverthrow';
+import { type AccessibilityIssue, findAccessibilityIssues } from './accessibility.js';
+import {
+  type CacheOptions,
+  cacheKey,
+  clearCache,
+  DEFAULT_CACHE_DIRECTORY,
+  DEFAULT_CACHE_MAX_ENTRIES,
+  readCache,
+  writeCache,
+} from './cache.js';
+import {
+  type ComplexityLimits,
+  type DiagramMetrics,
+  findLimitViolations,
+  hasDbLimits,
+  MERMAID_MAX_EDGES,
+  MERMAID_MAX_TEXT_SIZE,
+  type MeasurableDb,
+  measureDiagramDb,
+  measureText,
+} from './complexity.js';
+import {
+  BETA_DIAGRAM_TYPES,
+  BLOCK_KEYWORDS,
+  collectDiagramKeywords,
+  DIAGRAM_KEYWORDS,
+  getDiagramFamily,
+  matchesDiagramType,
+  probeDiagramKeywords,
+} from './diagram-types.js';
+import { withDom } from './dom-scope.js';
+import { codeForCheck, ERROR_CODES, LIMIT_CODES } from './error-codes.js';
+import { applyFixCandidate, type FixCandidate, getFixCandidates } from './fixes.js';
+import {
+  applyHints,
+  checkHints,
+  type HintedText,
+  type KatexHints,
+  type MermaidHints,
+} from './hints.js';
+import {
+  checkIgnoredConfig,
+  checkMermaidConfig,
+  MERMAID_DIRECTIVE_PATTERN,
+  MERMAID_FRONTMATTER_PATTERN,
+} from './mermaid-config.js';
+import { resolveBundledMermaid, resolveMermaidModule } from './mermaid-module.js';
+import {
+  formatDetail,
+  formatIssue,
+  formatMessage,
+  MESSAGE_CATALOGS,
+  type MessageCatalog,
+  type MessageParams,
+  resolveMessages,
+} from './messages.js';
+import {
+  type HtmlContainer,
+  type MathDelimiter,
+  type PlatformProfile,
+  PROFILES,
+  type ProfileConfig,
+  resolveProfile,
+} from './profiles.js';
+import { DEFAULT_ALLOWED_SCHEMES, findSecurityIssues } from './security.js';
+import {
+  type FlowchartDb,
+  findFlowchartIssues,
+  findSequenceIssues,
+  SEMANTIC_CHECK_DEFAULTS,
+  type SemanticCheck,
+  type SemanticIssue,
+  type SequenceDb,
+  stripFlowchartReferences,
+  stripSequenceActivations,
+} from './semantics.js';
+import {
+  type MappedCode,
+  mapSource,
+  offsetAt,
+  positionAt,
+  rangeAt,
+  replaceMapped,
+  sliceMapped,
+  trimMapped,
+} from './source-map.js';
+import { findStructureIssues, type StructureIssue } from './structure.js';
+import { findStyleIssues, type StylePreferences } from './style.js';
+import { suggestClosest } from './suggest.js';
+import {
+  isFullySuppressed,
+  isSuppressed,
+  KATEX_SUPPRESSION_PATTERN,
+  MERMAID_SUPPRESSION_PATTERN,
+  parseSuppressions,
+  type Suppression,
+} from './suppressions.js';
+import {
+  closeWorkerPool,
+  isPoolWorker,
+  runInWorker,
+  serveWorkerRequests,
+  WorkerTimeoutError,
+} from './worker-pool.js';
 
 // Type for katex internal __parse API (not in official types)
 interface KatexWithParse {
@@ -18,22 +122,114 @@ interface KatexWithParse {
 
 const katexParser = katex as unknown as KatexWithParse;
 
-export interface MermaidRuleConfig {
+/**
+ * On-disk caching of validation results, shared by the mermaid and KaTeX rules
+ */
+export interface CacheRuleConfig {
+  /** Cache validation results on disk (default: false) */
+  cache?: boolean;
+  /** Cache directory (default: node_modules/.cache/markdownlint-rule-mermaid) */
+  cacheDirectory?: string;
+  /** Maximum number of cached results; the least recently used are evicted (default: 10000) */
+  cacheMaxEntries?: number;
+}
+
+/**
+ * Filtering of reported errors by code, shared by every rule
+ */
+export interface ErrorCodeRuleConfig {
+  /** Error codes not to report (see ERROR_CODES), e.g. ["MMD-UNUSED-CLASSDEF"] */
+  ignoreCodes?: string[];
+}
+
+/**
+ * Language of error messages, shared by every rule
+ */
+export interface MessageRuleConfig {
+  /** Locale of messages and hints: "en" or "ja" (default: "en") */
+  locale?: string;
+  /** JSON file of message templates by key, applied over the locale's catalog */
+  messagesFile?: string;
+}
+
+export interface MermaidRuleConfig
+  extends ComplexityLimits,
+    CacheRuleConfig,
+    ErrorCodeRuleConfig,
+    MessageRuleConfig {
+  /** Platform profile name (e.g. "github") or a profile object */
+  profile?: string | ProfileConfig;
   /** Use basic validation only (skip mermaid parser) */
   basic?: boolean;
+  /** "render" also renders each diagram, catching errors mermaid.parse misses (default: "parse") */
+  mode?: 'parse' | 'render';
+  /** Only allow these diagram types (detector ids or families, e.g. "flowchart", "sequence") */
+  allowedTypes?: string[];
+  /** Reject these diagram types */
+  disallowedTypes?: string[];
+  /** Reject diagram types mermaid marks as beta (architecture, block, packet, ...) */
+  disallowBeta?: boolean;
+  /** Enable or disable individual semantic checks (e.g. { unusedClassDef: false }) */
+  checks?: Partial<Record<SemanticCheck, boolean>>;
+  /** Require every sequence diagram actor to be declared with participant/actor */
+  requireDeclaredParticipants?: boolean;
+  /** Path or package specifier of the mermaid build to validate against (default: bundled mermaid) */
+  mermaidModule?: string;
+  /** Validate against each of these mermaid builds and report which reject a diagram */
+  mermaidModules?: string[];
+  /** Number of worker threads to validate diagrams in (default: 0, validate on the main thread) */
+  workers?: number;
+  /** Time one diagram may take to validate before it is reported as timed out (validates in workers) */
+  timeoutMs?: number;
+  /** Size in characters above which a diagram is refused without parsing (default: 1000000) */
+  maxInputSize?: number;
+  /** Messages and hints of your own, by parser token or by a pattern of the error text */
+  hints?: MermaidHints;
+}
+
+export interface AccessibilityRuleConfig extends ErrorCodeRuleConfig, MessageRuleConfig {
+  /** Minimum length of accDescr (default: 0) */
+  minDescriptionLength?: number;
+  /** Diagram types that need no title or description (detector ids or families) */
+  exemptTypes?: string[];
+}
+
+export type MermaidStyleRuleConfig = StylePreferences & ErrorCodeRuleConfig & MessageRuleConfig;
+
+export interface MermaidSecurityRuleConfig extends ErrorCodeRuleConfig, MessageRuleConfig {
+  /** URL schemes links may use (default: http, https, mailto) */
+  allowedSchemes?: string[];
+  /** Report every click callback (default: false) */
+  forbidCallbacks?: boolean;
 }
 
-export interface KatexRuleConfig {
+export interface KatexRuleConfig extends CacheRuleConfig, ErrorCodeRuleConfig, MessageRuleConfig {
+  /** Platform profile name (e.g. "github") or a profile object */
+  profile?: string | ProfileConfig;
   /** Enable display mode for all math blocks (default: false) */
   displayMode?: boolean;
   /** Enable strict mode for LaTeX parsing (default: false) */
   strict?: boolean;
+  /** Messages and hints of your own, by a pattern of the error text */
+  hints?: KatexHints;
+}
+
+/**
+ * markdownlint fix information (a single-line edit)
+ */
+interface FixInfo {
+  lineNumber: number;
+  editColumn: number;
+  deleteCount: number;
+  insertText: string;
 }
 
 interface OnErrorParams {
   lineNumber: number;
   detail?: string;
   context?: string;
+  range?: [number, number];
+  fixInfo?: FixInfo;
 }
 
 interface Token {
@@ -41,24 +237,34 @@ interface Token {
   info: string;
   content: string;
   lineNumber: number;
+  /** Source lines of block tokens, as 0-based [start, end) */
+  map: [number, number] | null;
 }
 
 interface RuleParams {
+  /** Name of the linted file (or string) */
+  name?: string;
   parsers: {
     markdownit: {
       tokens: Token[];
     };
   };
+  lines: string[];
   config: MermaidRuleConfig;
 }
 
 type OnErrorCallback = (params: OnErrorParams) => void;
 
 interface ParsedError {
+  /** Stable error code (see ERROR_CODES) */
+  code: string;
   line: number | null;
+  column: number | null;
   message: string;
   hint: string | null;
   context: string | null;
+  /** Token the parser did not expect */
+  token?: string;
 }
 
 /**
@@ -66,8 +272,16 @@ interface ParsedError {
  */
 interface ValidationError {
   lineNumber: number;
+  /** Name of the check that failed (used by suppression directives) */
+  check: string;
+  /** Stable error code (see ERROR_CODES) */
+  code: string;
   detail: string;
   context?: string;
+  /** Column (1-based) and length of the offending text */
+  range?: [number, number];
+  /** Verified autofix for the error */
+  fixInfo?: FixInfo;
 }
 
 interface MarkdownlintRule {
@@ -82,186 +296,159 @@ interface MarkdownlintRule {
 /**
  * Code block to validate
  */
-interface CodeBlock {
-  code: string;
+interface CodeBlock extends MappedCode {
+  /** Line of the fence or HTML tag that opens the block */
   startLine: number;
+  /** Per-block display mode override (math blocks only) */
+  displayMode?: boolean;
+  /** Checks silenced by directive comments in the block */
+  suppressions?: Suppression[];
+  /** Diagram type detected by mermaid (set once the block has been parsed) */
+  diagramType?: string;
+}
+
+type Mermaid = typeof import('mermaid').default;
+
+/**
+ * A loaded mermaid build and the name it is reported under
+ */
+interface LoadedMermaid {
+  mermaid: Mermaid;
+  label: string;
+  /** Diagram declaration keywords, mapped to the detector each one selects */
+  diagramKeywords: Map<string, string>;
 }
 
-// Mermaid instance (lazy loaded)
-let mermaidInstance: typeof import('mermaid').default | null = null;
+// Mermaid instances by module specifier ('' for the bundled mermaid), lazy loaded
+const mermaidInstances: Map<string, LoadedMermaid> = new Map();
 
 /**
- * Setup DOM environment and initialize mermaid
+ * Import the bundled mermaid or the build a specifier resolves to
  */
-async function getMermaid(): Promise<typeof import('mermaid').default> {
-  if (mermaidInstance) {
-    return mermaidInstance;
+async function importMermaid(
+  mermaidModule: string | undefined
+): Promise<Omit<LoadedMermaid, 'diagramKeywords'>> {
+  if (!mermaidModule) {
+    return { mermaid: (await import('mermaid')).default, label: 'bundled mermaid' };
+  }
+  try {
+    const { url, label } = resolveMermaidModule(mermaidModule);
+    const imported = (await import(url)) as { default: Mermaid };
+    return { mermaid: imported.default, label };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    throw new Error(`Cannot load mermaid module '${mermaidModule}': ${reason}`);
   }
+}
 
-  // Setup minimal DOM environment for mermaid before importing
-  if (typeof (globalThis as Record<string, unknown>).window === 'undefined') {
-    const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
-      pretendToBeVisual: true,
-    });
-    const g = globalThis as Record<string, unknown>;
-    g.window = dom.window;
-    g.document = dom.window.document;
-    g.DOMParser = dom.window.DOMParser;
+/**
+ * Import and initialize mermaid (call inside withDom: mermaid probes the DOM on import)
+ */
+async function loadMermaid(mermaidModule?: string): Promise<LoadedMermaid> {
+  const cached = mermaidInstances.get(mermaidModule ?? '');
+  if (cached) {
+    return cached;
   }
 
-  // Dynamic import after DOM setup
-  const mermaid = (await import('mermaid')).default;
+  const { mermaid, label } = await importMermaid(mermaidModule);
 
+  // Edges over mermaid's limit are reported as MMD-TOO-MANY-EDGES, with the count
   mermaid.initialize({
     startOnLoad: false,
     suppressErrorRendering: true,
+    maxEdges: Number.MAX_SAFE_INTEGER,
   });
 
-  mermaidInstance = mermaid;
-  return mermaid;
+  // Detectors are registered by initialize(). Builds without the metadata API
+  // (mermaid 10) are probed with the keywords of the bundled build instead.
+  const detectType = (text: string): string => mermaid.detectType(text);
+  const diagramKeywords =
+    typeof mermaid.getRegisteredDiagramsMetadata === 'function'
+      ? collectDiagramKeywords(
+          mermaid.getRegisteredDiagramsMetadata().map(({ id }) => id),
+          detectType
+        )
+      : probeDiagramKeywords([...DIAGRAM_KEYWORDS.keys()], detectType);
+  const loaded: LoadedMermaid = { mermaid, label, diagramKeywords };
+  mermaidInstances.set(mermaidModule ?? '', loaded);
+  return loaded;
+}
+
+/**
+ * Run code against an initialized mermaid instance (the bundled one unless a
+ * module is given), with the DOM globals mermaid needs installed meanwhile
+ */
+function withMermaid<T>(
+  mermaidModule: string | undefined,
+  run: (mermaid: Mermaid) => Promise<T> | T
+): Promise<T> {
+  return withDom(async () => run((await loadMermaid(mermaidModule)).mermaid));
+}
+
+/**
+ * Get the diagram keywords of a mermaid build that has been loaded
+ */
+function getDiagramKeywords(mermaidModule: string | undefined): Map<string, string> {
+  return mermaidInstances.get(mermaidModule ?? '')?.diagramKeywords ?? new Map();
 }
 
 /**
- * Token hints mapping for mermaid parser errors
- * Maps token names to user-friendly messages and hints
+ * Error codes for mermaid parser errors
+ * Maps token names to the codes whose messages and hints (see messages.ts) explain them
  */
-const TOKEN_HINTS: Record<string, { message: string; hint: string }> = {
+const TOKEN_CODES: Record<string, string> = {
   // Flowchart node shape errors (unclosed brackets)
-  SQS: {
-    message: 'Unclosed square bracket',
-    hint: 'Add closing ] to complete the node shape: A[text]',
-  },
-  PS: {
-    message: 'Unclosed parenthesis',
-    hint: 'Add closing ) to complete the node shape: A(text) or A((text))',
-  },
-  DIAMOND_START: {
-    message: 'Unclosed curly brace or diamond',
-    hint: 'Add closing } to complete the shape: A{text} or A{{text}}',
-  },
-  SUBROUTINESTART: {
-    message: 'Unclosed subroutine shape',
-    hint: 'Add closing ]] to complete the subroutine: A[[text]]',
-  },
-  STADIUMSTART: {
-    message: 'Unclosed stadium shape',
-    hint: 'Add closing ]) to complete the stadium: A([text])',
-  },
-  CYLINDERSTART: {
-    message: 'Unclosed cylinder shape',
-    hint: 'Add closing ]) to complete the cylinder: A[(text)]',
-  },
-  DOUBLECIRCLESTART: {
-    message: 'Unclosed double circle shape',
-    hint: 'Add closing ))) to complete the double circle: A(((text)))',
-  },
-  TRAPSTART: {
-    message: 'Unclosed trapezoid shape',
-    hint: 'Add closing /] to complete the trapezoid: A[/text/]',
-  },
-  INVTRAPSTART: {
-    message: 'Unclosed inverse trapezoid shape',
-    hint: 'Add closing \\] to complete the inverse trapezoid: A[\\text\\]',
-  },
-  TAGEND: {
-    message: 'Unclosed asymmetric shape',
-    hint: 'Add closing ] to complete the asymmetric shape: A>text]',
-  },
+  SQS: 'MMD-UNCLOSED-BRACKET',
+  PS: 'MMD-UNCLOSED-PAREN',
+  DIAMOND_START: 'MMD-UNCLOSED-BRACE',
+  SUBROUTINESTART: 'MMD-UNCLOSED-SUBROUTINE',
+  STADIUMSTART: 'MMD-UNCLOSED-STADIUM',
+  CYLINDERSTART: 'MMD-UNCLOSED-CYLINDER',
+  DOUBLECIRCLESTART: 'MMD-UNCLOSED-DOUBLE-CIRCLE',
+  TRAPSTART: 'MMD-UNCLOSED-TRAPEZOID',
+  INVTRAPSTART: 'MMD-UNCLOSED-INV-TRAPEZOID',
+  TAGEND: 'MMD-UNCLOSED-ASYMMETRIC',
 
   // Block structure errors (unclosed blocks)
-  '1': {
-    message: 'Unclosed block',
-    hint: 'Add "end" to close subgraph, loop, alt, opt, par, critical, rect, or state block',
-  },
-  EOF_IN_STRUCT: {
-    message: 'Unclosed namespace or struct block',
-    hint: 'Add closing } to complete the namespace or class definition',
-  },
-  STRUCT_START: {
-    message: 'Invalid struct declaration',
-    hint: 'Check class syntax: class ClassName { ... }',
-  },
+  '1': 'MMD-UNCLOSED-BLOCK',
+  EOF_IN_STRUCT: 'MMD-UNCLOSED-STRUCT',
+  STRUCT_START: 'MMD-INVALID-STRUCT',
 
   // Syntax errors
-  NODE_STRING: {
-    message: 'Unexpected text',
-    hint: 'Check for missing arrows (-->, ---) or invalid syntax',
-  },
-  NEWLINE: {
-    message: 'Incomplete statement',
-    hint: 'Add missing parts (e.g., colon for messages: Alice->>Bob: message)',
-  },
-  EOF: {
-    message: 'Unexpected end of diagram',
-    hint: 'Statement is incomplete - add missing node, message, or closing element',
-  },
-  LINK: {
-    message: 'Missing link source',
-    hint: 'Add source node before arrow: A --> B',
-  },
+  NODE_STRING: 'MMD-UNEXPECTED-TEXT',
+  NEWLINE: 'MMD-INCOMPLETE-STATEMENT',
+  EOF: 'MMD-UNEXPECTED-EOF',
+  LINK: 'MMD-MISSING-LINK-SOURCE',
 
   // Sequence diagram specific
-  ACTOR: {
-    message: 'Invalid participant reference',
-    hint: 'Check participant name in note/over statement',
-  },
-  TXT: {
-    message: 'Missing message text',
-    hint: 'Add message after colon: Alice->>Bob: Hello',
-  },
+  ACTOR: 'MMD-INVALID-PARTICIPANT',
+  TXT: 'MMD-MISSING-MESSAGE-TEXT',
 
   // ER diagram specific
-  IDENTIFYING: {
-    message: 'Invalid ER relationship',
-    hint: 'Use valid relationship: ||--o{, }o--||, etc.',
-  },
-  ONLY_ONE: {
-    message: 'Invalid ER cardinality',
-    hint: 'Check cardinality symbols: ||, |o, o|, }|, |{, etc.',
-  },
-  BLOCK_STOP: {
-    message: 'Invalid ER attribute block',
-    hint: 'Check attribute syntax: EntityName { type attrName }',
-  },
+  IDENTIFYING: 'MMD-INVALID-ER-RELATIONSHIP',
+  ONLY_ONE: 'MMD-INVALID-ER-CARDINALITY',
+  BLOCK_STOP: 'MMD-INVALID-ER-ATTRIBUTES',
 
   // State diagram specific
-  INVALID: {
-    message: 'Invalid state transition',
-    hint: 'Use --> for transitions: StateA --> StateB',
-  },
+  INVALID: 'MMD-INVALID-STATE-TRANSITION',
 
   // Gantt specific
-  taskData: {
-    message: 'Invalid task data',
-    hint: 'Check task format: taskName :status, startDate, duration',
-  },
+  taskData: 'MMD-INVALID-TASK-DATA',
 
   // Class diagram specific
-  GENERICTYPE: {
-    message: 'Invalid generic type',
-    hint: 'Check generic syntax: class ClassName~Type~',
-  },
-  STYLE_SEPARATOR: {
-    message: 'Invalid style syntax',
-    hint: 'Check style definition syntax',
-  },
+  GENERICTYPE: 'MMD-INVALID-GENERIC',
+  STYLE_SEPARATOR: 'MMD-INVALID-STYLE',
 
   // Git graph specific
-  COMMIT_ID: {
-    message: 'Invalid commit reference',
-    hint: 'Use valid commit command: commit id: "message"',
-  },
-  COMMIT_TAG: {
-    message: 'Invalid commit tag',
-    hint: 'Use valid tag: commit tag: "v1.0"',
-  },
+  COMMIT_ID: 'MMD-INVALID-COMMIT-REF',
+  COMMIT_TAG: 'MMD-INVALID-COMMIT-TAG',
 };
 
 /**
- * Get hint for a token
+ * Get the error code for a token
  */
-function getTokenHint(token: string): { message: string; hint: string } | null {
-  return TOKEN_HINTS[token] || null;
+function getTokenCode(token: string): string | null {
+  return TOKEN_CODES[token] || null;
 }
 
 /**
@@ -280,53 +467,157 @@ function extractContext(errorLines: string[]): string | null {
   return null;
 }
 
+/**
+ * Locate the column marked by the "^" pointer of a jison error message.
+ * The pointer line shows up to 20 characters before the error and the
+ * upcoming input, with newlines removed, so match both halves against the
+ * reported code line.
+ */
+function extractPointerColumn(errorLines: string[], codeLine: string): number | null {
+  const pointerIndex = errorLines.findIndex((errorLine) => /^-*\^$/.test(errorLine));
+  if (pointerIndex < 1) {
+    return null;
+  }
+
+  const shown = errorLines[pointerIndex - 1];
+  const caret = errorLines[pointerIndex].length - 1;
+  const before = shown.substring(0, caret).replace(/^\.{3}/, '');
+  const after = shown.substring(caret).replace(/\.{3}$/, '');
+
+  for (let column = codeLine.length; column >= 0; column--) {
+    const head = codeLine.substring(0, column);
+    const tail = codeLine.substring(column);
+    const headMatches = before.endsWith(head) || head.endsWith(before);
+    const tailMatches = after.startsWith(tail) || tail.startsWith(after);
+    if (headMatches && tailMatches) {
+      return column + 1;
+    }
+  }
+  return null;
+}
+
 /**
  * Handle parse error pattern: "Parse error on line X:"
  */
-function handleParseError(errorMessage: string, match: RegExpMatchArray): ParsedError {
+function handleParseError(
+  errorMessage: string,
+  match: RegExpMatchArray,
+  code: string,
+  messages: MessageCatalog
+): ParsedError {
   const line = Number.parseInt(match[1], 10);
   const lines = errorMessage.split('\n');
+  const codeLine = code.split('\n')[line - 1] ?? '';
 
   const expectingMatch = errorMessage.match(/Expecting .+?, got '([^']+)'/);
+  let errorCode = 'MMD-PARSE-ERROR';
   let hint: string | null = null;
   let message: string;
+  let token: string | undefined;
 
   if (expectingMatch) {
-    const got = expectingMatch[1];
-    const tokenInfo = getTokenHint(got);
-    if (tokenInfo) {
-      message = tokenInfo.message;
-      hint = tokenInfo.hint;
-    } else {
-      message = `Syntax error: unexpected "${got}"`;
-      hint = 'Check the syntax near this position';
-    }
+    token = expectingMatch[1];
+    errorCode = getTokenCode(token) ?? 'MMD-UNEXPECTED-TOKEN';
+    message = formatMessage(messages, errorCode, { token });
+    hint = formatMessage(messages, `${errorCode}.hint`);
   } else {
     message = lines[0].replace(/^Parse error on line \d+:\s*/, '');
   }
 
   const context = extractContext(lines);
-  return { line, message, hint, context };
+  const column = extractPointerColumn(lines, codeLine);
+  return { code: errorCode, line, column, message, hint, context, token };
+}
+
+/**
+ * Get the diagram type keyword a diagram starts with
+ */
+function getDeclaredType(code: string): string | undefined {
+  return code.match(/^\s*([^\s;{]+)/)?.[1];
 }
 
 /**
- * Handle "No diagram type detected" error
+ * Handle "No diagram type detected" error, suggesting the closest registered type
  */
-function handleNoDiagramType(code: string): ParsedError {
+function handleNoDiagramType(
+  code: string,
+  diagramKeywords: ReadonlyMap<string, string>,
+  messages: MessageCatalog
+): ParsedError {
   const firstLine = code.split('\n')[0]?.trim() || '';
-  const displayLine = firstLine || '(empty)';
-  return {
+  const displayLine = firstLine || formatMessage(messages, 'MMD-UNKNOWN-DIAGRAM-TYPE.empty');
+  const types = [...diagramKeywords.keys()].sort((a, b) =>
+    a.toLowerCase().localeCompare(b.toLowerCase())
+  );
+  const parsed: ParsedError = {
+    code: 'MMD-UNKNOWN-DIAGRAM-TYPE',
     line: 1,
-    message: `Unknown diagram type: "${displayLine}"`,
-    hint: 'Valid types: flowchart, sequenceDiagram, classDiagram, stateDiagram, erDiagram, gantt, pie, mindmap, timeline, gitGraph',
+    column: null,
+    message: formatMessage(messages, 'MMD-UNKNOWN-DIAGRAM-TYPE', { line: displayLine }),
+    hint: formatMessage(messages, 'MMD-UNKNOWN-DIAGRAM-TYPE.hint', { types: types.join(', ') }),
     context: firstLine.substring(0, 40) || null,
   };
+
+  const declared = getDeclaredType(code);
+  const suggestion = declared ? suggestClosest(declared, types) : null;
+  return suggestion && suggestion !== declared
+    ? withSuggestion(parsed, suggestion, messages)
+    : parsed;
+}
+
+/**
+ * Find a misspelled block keyword (e.g. "subgrpah" or "edn") on the error
+ * line or, when a block was left open, on any line holding a single word
+ */
+function findMisspelledKeyword(
+  parsed: ParsedError,
+  code: string,
+  diagramKeywords: ReadonlyMap<string, string>
+): string | null {
+  const lines = code.split('\n');
+  const detector = diagramKeywords.get(getDeclaredType(code) ?? '');
+  const keywords = detector ? (BLOCK_KEYWORDS[getDiagramFamily(detector)] ?? []) : [];
+  if (keywords.length === 0 || parsed.line === null) {
+    return null;
+  }
+
+  const openBlock = parsed.code === 'MMD-UNCLOSED-BLOCK' || parsed.code === 'MMD-UNEXPECTED-EOF';
+  const candidates = openBlock
+    ? [lines[parsed.line - 1] ?? '', ...lines.filter((line) => /^\s*\w+\s*$/.test(line))]
+    : [lines[parsed.line - 1] ?? ''];
+
+  for (const line of candidates) {
+    // Keywords are lower case; capitalized words are more likely names
+    const word = line.match(/^\s*([a-z]{3,})(?=\s|$)/)?.[1];
+    if (!word || keywords.includes(word)) {
+      continue;
+    }
+    const suggestion = suggestClosest(word, keywords);
+    if (suggestion) {
+      return suggestion;
+    }
+  }
+  return null;
+}
+
+/**
+ * Put a "did you mean" suggestion in front of the hint of an error
+ */
+function withSuggestion(parsed: ParsedError, name: string, messages: MessageCatalog): ParsedError {
+  const hint = parsed.hint
+    ? formatMessage(messages, 'suggestion.hint', { name, hint: parsed.hint })
+    : formatMessage(messages, 'suggestion', { name });
+  return { ...parsed, hint };
 }
 
 /**
  * Handle unexpected character error
  */
-function handleUnexpectedChar(match: RegExpMatchArray, code: string): ParsedError {
+function handleUnexpectedChar(
+  match: RegExpMatchArray,
+  code: string,
+  messages: MessageCatalog
+): ParsedError {
   const char = match[1];
   const offset = Number.parseInt(match[2], 10);
   let line = 1;
@@ -339,52 +630,81 @@ function handleUnexpectedChar(match: RegExpMatchArray, code: string): ParsedErro
     line++;
   }
   return {
+    code: 'MMD-UNEXPECTED-CHARACTER',
     line,
-    message: `Unexpected character "${char}"`,
-    hint: 'Check for typos, missing quotes, or invalid characters',
+    column: offset - pos + 1,
+    message: formatMessage(messages, 'MMD-UNEXPECTED-CHARACTER', { char }),
+    hint: formatMessage(messages, 'MMD-UNEXPECTED-CHARACTER.hint'),
     context: null,
   };
 }
 
 /**
- * Parse and categorize mermaid error message
+ * Parse and categorize mermaid error message, suggest the keyword a misspelled
+ * one may stand for, then apply the user's hints
+ */
+function parseErrorMessage(
+  errorMessage: string,
+  code: string,
+  config: MermaidRuleConfig,
+  messages: MessageCatalog
+): ParsedError {
+  const diagramKeywords = getDiagramKeywords(config.mermaidModule);
+  const parsed = matchErrorMessage(errorMessage, code, diagramKeywords, messages);
+  const keyword = findMisspelledKeyword(parsed, code, diagramKeywords);
+  const suggested = keyword ? withSuggestion(parsed, keyword, messages) : parsed;
+  return applyHints(suggested, errorMessage, config.hints);
+}
+
+/**
+ * Categorize mermaid error message by the patterns mermaid's parsers produce
  */
-function parseErrorMessage(errorMessage: string, code: string): ParsedError {
+function matchErrorMessage(
+  errorMessage: string,
+  code: string,
+  diagramKeywords: ReadonlyMap<string, string>,
+  messages: MessageCatalog
+): ParsedError {
   // Pattern 1: "Parse error on line X:"
   const parseErrorMatch = errorMessage.match(/Parse error on line (\d+):/i);
   if (parseErrorMatch) {
-    return handleParseError(errorMessage, parseErrorMatch);
+    return handleParseError(errorMessage, parseErrorMatch, code, messages);
   }
 
   // Pattern 2: "Lexical error on line X"
   const lexicalMatch = errorMessage.match(/Lexical error on line (\d+)/i);
   if (lexicalMatch) {
+    const line = Number.parseInt(lexicalMatch[1], 10);
     return {
-      line: Number.parseInt(lexicalMatch[1], 10),
-      message: 'Unrecognized text or keyword',
-      hint: 'Check for typos, invalid keywords, or unsupported syntax',
+      code: 'MMD-LEXICAL-ERROR',
+      line,
+      column: extractPointerColumn(errorMessage.split('\n'), code.split('\n')[line - 1] ?? ''),
+      message: formatMessage(messages, 'MMD-LEXICAL-ERROR'),
+      hint: formatMessage(messages, 'MMD-LEXICAL-ERROR.hint'),
       context: null,
     };
   }
 
   // Pattern 3: "No diagram type detected"
   if (errorMessage.includes('No diagram type detected')) {
-    return handleNoDiagramType(code);
+    return handleNoDiagramType(code, diagramKeywords, messages);
   }
 
   // Pattern 4: "Parsing failed: unexpected character"
   const unexpectedCharMatch = errorMessage.match(/unexpected character: ->(.)<- at offset: (\d+)/);
   if (unexpectedCharMatch) {
-    return handleUnexpectedChar(unexpectedCharMatch, code);
+    return handleUnexpectedChar(unexpectedCharMatch, code, messages);
   }
 
   // Pattern 5: "Parsing failed: Expecting token"
   const expectingTokenMatch = errorMessage.match(/Expecting(?: token of type)? '?([^']+)'? but/i);
   if (expectingTokenMatch) {
     return {
+      code: 'MMD-EXPECTED-TOKEN',
       line: 1,
-      message: `Expected ${expectingTokenMatch[1]}`,
-      hint: 'Check the diagram syntax and structure',
+      column: null,
+      message: formatMessage(messages, 'MMD-EXPECTED-TOKEN', { token: expectingTokenMatch[1] }),
+      hint: formatMessage(messages, 'MMD-EXPECTED-TOKEN.hint'),
       context: null,
     };
   }
@@ -392,18 +712,34 @@ function parseErrorMessage(errorMessage: string, code: string): ParsedError {
   // Pattern 6: "Parsing failed: Expecting: one of these possible"
   if (errorMessage.includes('Expecting: one of these possible')) {
     return {
+      code: 'MMD-INVALID-SYNTAX',
       line: 1,
-      message: 'Invalid syntax',
-      hint: 'Check command syntax (e.g., branch name, checkout target)',
+      column: null,
+      message: formatMessage(messages, 'MMD-INVALID-SYNTAX'),
+      hint: formatMessage(messages, 'MMD-INVALID-SYNTAX.hint'),
+      context: null,
+    };
+  }
+
+  // A mermaidModule that cannot be loaded fails every block the same way
+  if (errorMessage.startsWith('Cannot load mermaid module')) {
+    return {
+      code: 'MMD-MODULE-LOAD-FAILED',
+      line: null,
+      column: null,
+      message: errorMessage,
+      hint: null,
       context: null,
     };
   }
 
   // Default: unknown error format
   return {
+    code: 'MMD-PARSE-ERROR',
     line: null,
+    column: null,
     message: errorMessage.split('\n')[0].substring(0, 150),
-    hint: 'Check the diagram syntax for errors',
+    hint: formatMessage(messages, 'MMD-PARSE-ERROR.hint'),
     context: null,
   };
 }
@@ -411,177 +747,1210 @@ function parseErrorMessage(errorMessage: string, code: string): ParsedError {
 /**
  * Format error detail with hint
  */
-function formatErrorDetail(parsed: ParsedError): string {
-  let detail = parsed.message;
-  if (parsed.hint) {
-    detail += `. ${parsed.hint}`;
-  }
-  return detail;
+function formatErrorDetail(text: HintedText, messages: MessageCatalog): string {
+  const { message, hint } = text;
+  return hint ? formatMessage(messages, 'detail', { message, hint }) : message;
 }
 
 /**
- * Convert ParsedError to ValidationError with line offset
+ * Convert ParsedError to ValidationError, mapping its position back to the Markdown file
  */
-function toValidationError(parsed: ParsedError, startLine: number, code: string): ValidationError {
-  return {
-    lineNumber: parsed.line ? startLine + parsed.line - 1 : startLine,
-    detail: formatErrorDetail(parsed),
-    context: parsed.context || code.split('\n')[0]?.substring(0, 40),
+function toValidationError(
+  parsed: ParsedError,
+  block: CodeBlock,
+  length: number,
+  messages: MessageCatalog
+): ValidationError {
+  const error: ValidationError = {
+    lineNumber: block.startLine,
+    check: 'syntax',
+    code: parsed.code,
+    detail: formatErrorDetail(parsed, messages),
+    context: parsed.context || block.code.split('\n')[0]?.substring(0, 40),
   };
+
+  if (parsed.line) {
+    const offset = offsetAt(block.code, parsed.line, parsed.column ?? 1);
+    error.lineNumber = positionAt(block, offset).line;
+    if (parsed.column) {
+      error.range = rangeAt(block, offset, length);
+    }
+  }
+
+  return error;
+}
+
+/**
+ * Repeat the Markdown line prefix (list indentation, blockquote markers)
+ * on lines added by a fix
+ */
+function prefixAddedLines(fixInfo: FixInfo, lines: string[]): FixInfo {
+  const prefix = (lines[fixInfo.lineNumber - 1] ?? '').substring(0, fixInfo.editColumn - 1);
+  return { ...fixInfo, insertText: fixInfo.insertText.replace(/\n/g, `\n${prefix}`) };
+}
+
+/**
+ * Report a validation error, fitting its range to the reported line
+ */
+function reportError(error: ValidationError, lines: string[], onError: OnErrorCallback): void {
+  const { check: _check, code, detail, range, fixInfo, ...rest } = error;
+  const reported = { ...rest, detail: `${code}: ${detail}` };
+  const params: OnErrorParams = fixInfo
+    ? { ...reported, fixInfo: prefixAddedLines(fixInfo, lines) }
+    : reported;
+  const lineLength = lines[error.lineNumber - 1]?.length ?? 0;
+
+  if (!range || lineLength === 0) {
+    onError(params);
+    return;
+  }
+
+  const column = Math.min(range[0], lineLength);
+  onError({ ...params, range: [column, Math.min(range[1], lineLength - column + 1)] });
 }
 
 /**
  * Check if code is not empty
  */
-function checkNotEmpty(block: CodeBlock): Result<CodeBlock, ValidationError> {
+function checkNotEmpty(
+  block: CodeBlock,
+  messages: MessageCatalog
+): Result<CodeBlock, ValidationError> {
   const trimmed = block.code.trim();
   if (!trimmed) {
     return err({
       lineNumber: block.startLine,
-      detail:
-        'Empty Mermaid diagram. Add a diagram type (e.g., flowchart, sequenceDiagram) and content',
+      check: 'empty',
+      code: 'MMD-EMPTY',
+      detail: formatDetail(messages, 'MMD-EMPTY'),
     });
   }
-  return ok({ code: trimmed, startLine: block.startLine });
+  return ok(trimMapped(block));
+}
+
+/**
+ * Mermaid frontmatter and directive patterns (mirrors mermaid's preprocessing)
+ */
+const MERMAID_COMMENT_PATTERN = /^\s*%%(?!{)[^\n]+\n?/gm;
+
+/**
+ * Apply mermaid's own preprocessing (frontmatter, directive and comment removal)
+ * so the line numbers mermaid reports can be mapped back to the original code.
+ * Checks that scan the code themselves read the result too, and their
+ * offsets are mapped back the same way.
+ */
+function preprocessMermaidCode(block: CodeBlock): CodeBlock {
+  let processed = replaceMapped(block, /\r\n?/g, '\n');
+  processed = replaceMapped(processed, MERMAID_FRONTMATTER_PATTERN, '');
+  processed = replaceMapped(processed, MERMAID_DIRECTIVE_PATTERN, '');
+  processed = replaceMapped(processed, MERMAID_COMMENT_PATTERN, '');
+  return sliceMapped(processed, processed.code.length - processed.code.trimStart().length);
+}
+
+/**
+ * Get the length of the offending token from a jison parse error
+ */
+function getErrorTokenLength(error: unknown): number {
+  const text = (error as { hash?: { text?: unknown } } | null)?.hash?.text;
+  return typeof text === 'string' && text.length > 0 ? text.length : 1;
+}
+
+/**
+ * Convert a fix candidate into markdownlint fixInfo.
+ * Returns null when the line cannot be edited in place, e.g. because it
+ * contained HTML entities that were decoded before validation.
+ */
+function toFixInfo(block: CodeBlock, candidate: FixCandidate): FixInfo | null {
+  const lineText = block.code.split('\n')[candidate.line - 1] ?? '';
+  const offset = offsetAt(block.code, candidate.line, 1);
+  const start = positionAt(block, offset);
+  const end = positionAt(block, offset + lineText.length);
+
+  if (end.line !== start.line || end.column - start.column !== lineText.length) {
+    return null;
+  }
+
+  return {
+    lineNumber: start.line,
+    editColumn: start.column,
+    deleteCount: lineText.length,
+    insertText: candidate.text,
+  };
+}
+
+/**
+ * Find an autofix for an invalid diagram.
+ * Every candidate is re-validated with the mermaid parser, so a fix is only
+ * offered when it makes the diagram valid.
+ */
+function findMermaidFix(block: CodeBlock, mermaidModule?: string): Promise<FixInfo | null> {
+  return withMermaid(mermaidModule, async (mermaid) => {
+    for (const candidate of getFixCandidates(block.code)) {
+      const fixInfo = toFixInfo(block, candidate);
+      if (!fixInfo) {
+        continue;
+      }
+      const fixed = applyFixCandidate(block.code, candidate);
+      if (await mermaid.parse(fixed, { suppressErrors: true })) {
+        return fixInfo;
+      }
+    }
+
+    return null;
+  });
+}
+
+/**
+ * Attach a verified autofix (if any) to a mermaid validation error
+ */
+function attachMermaidFix(
+  block: CodeBlock,
+  error: ValidationError,
+  mermaidModule?: string
+): ResultAsync<CodeBlock, ValidationError> {
+  const fix = findMermaidFix(block, mermaidModule).catch(() => null);
+  return ResultAsync.fromSafePromise(fix).andThen((fixInfo) =>
+    err(fixInfo ? { ...error, fixInfo } : error)
+  );
 }
 
 /**
  * Parse mermaid code using mermaid parser
  * Returns ResultAsync for async error handling
  */
-function parseMermaidSyntax(block: CodeBlock): ResultAsync<CodeBlock, ValidationError> {
+function parseMermaidSyntax(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  messages: MessageCatalog
+): ResultAsync<CodeBlock, ValidationError> {
   return ResultAsync.fromPromise(
-    getMermaid().then(async (mermaid) => {
-      await mermaid.parse(block.code);
-      return block;
+    withMermaid(config.mermaidModule, async (mermaid) => {
+      const { diagramType } = await mermaid.parse(block.code);
+      return { ...block, diagramType };
     }),
     (error): ValidationError => {
       const errorMessage = error instanceof Error ? error.message : 'Unknown parse error';
-      const parsed = parseErrorMessage(errorMessage, block.code);
-      return toValidationError(parsed, block.startLine, block.code);
+      // Mermaid reports positions relative to its preprocessed code
+      const processed = preprocessMermaidCode(block);
+      const parsed = parseErrorMessage(errorMessage, processed.code, config, messages);
+      return toValidationError(parsed, processed, getErrorTokenLength(error), messages);
     }
-  );
+  ).orElse((error) => attachMermaidFix(block, error, config.mermaidModule));
 }
 
+// Counter for the ids of rendered diagrams
+let renderCount = 0;
+
 /**
- * Validate a single mermaid code block using Result pipeline
+ * Check whether a render failure comes from what jsdom cannot do (canvas,
+ * missing browser globals) rather than from the diagram
  */
-function validateMermaidBlock(block: CodeBlock): ResultAsync<CodeBlock, ValidationError> {
-  const emptyCheck = checkNotEmpty(block);
+function isRenderEnvironmentError(error: unknown): boolean {
+  return (
+    error instanceof ReferenceError || (error instanceof Error && /\bcanvas\b/i.test(error.message))
+  );
+}
 
-  if (emptyCheck.isErr()) {
-    return errAsync(emptyCheck.error);
-  }
+/**
+ * Values render errors name, looked up in the code to place the error
+ * (gantt charts throw "Invalid date:2024-13-45" without a line)
+ */
+const RENDER_ERROR_SUBJECTS: RegExp[] = [/^Invalid date:\s*(\S.*?)\s*$/m];
 
-  return parseMermaidSyntax(emptyCheck.value);
+/**
+ * Location jison attaches to the errors it throws (lines 1-based, columns 0-based)
+ */
+interface JisonLocation {
+  // biome-ignore lint/style/useNamingConvention: matches jison's error hash
+  first_line: number;
+  // biome-ignore lint/style/useNamingConvention: matches jison's error hash
+  first_column: number;
 }
 
 /**
- * Basic validation without mermaid parser
+ * Position (1-based) and length of a render error that carries no line in its
+ * message: the jison location on the error, else the first occurrence of the
+ * value the message names
  */
-function validateBasicBlock(block: CodeBlock): Result<CodeBlock, ValidationError> {
-  // Check empty first
-  const emptyCheck = checkNotEmpty(block);
-  if (emptyCheck.isErr()) {
-    return emptyCheck;
+function findRenderErrorPosition(
+  error: unknown,
+  code: string
+): { line: number; column: number; length: number } | null {
+  const loc = (error as { hash?: { loc?: Partial<JisonLocation> } } | null)?.hash?.loc;
+  if (typeof loc?.first_line === 'number' && typeof loc.first_column === 'number') {
+    return {
+      line: loc.first_line,
+      column: loc.first_column + 1,
+      length: getErrorTokenLength(error),
+    };
   }
 
-  const trimmedBlock = emptyCheck.value;
-  const lines = trimmedBlock.code.split('\n');
-
-  // Check for diagram type on first non-comment line
-  let foundType = false;
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (!trimmedLine || trimmedLine.startsWith('%%')) {
-      continue;
-    }
-
-    const match = trimmedLine.match(/^([a-zA-Z][a-zA-Z0-9_-]*)/);
-    if (match) {
-      foundType = true;
+  const message = error instanceof Error ? error.message : '';
+  for (const pattern of RENDER_ERROR_SUBJECTS) {
+    const subject = message.match(pattern)?.[1];
+    const offset = subject ? code.indexOf(subject) : -1;
+    if (subject && offset !== -1) {
+      const before = code.substring(0, offset).split('\n');
+      return {
+        line: before.length,
+        column: (before.at(-1)?.length ?? 0) + 1,
+        length: subject.length,
+      };
     }
-    break;
   }
+  return null;
+}
 
-  if (!foundType) {
-    return err({
-      lineNumber: block.startLine,
-      detail:
-        'Missing diagram type declaration. Start with a diagram type like: flowchart, sequenceDiagram, classDiagram',
-      context: lines[0]?.trim().substring(0, 40),
+/**
+ * Render a diagram that parsed, catching errors only rendering reveals
+ * (invalid gantt dates, impossible layouts). Failures are mapped like parse
+ * errors.
+ */
+function renderMermaidDiagram(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  messages: MessageCatalog
+): ResultAsync<CodeBlock, ValidationError> {
+  return ResultAsync.fromPromise(
+    withMermaid(config.mermaidModule, (mermaid) =>
+      mermaid.render(`mermaid-lint-${renderCount++}`, block.code)
+    ),
+    (error) => error
+  )
+    .map(() => block)
+    .orElse((error): Result<CodeBlock, ValidationError> => {
+      if (isRenderEnvironmentError(error)) {
+        return ok(block);
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown render error';
+      const processed = preprocessMermaidCode(block);
+      const parsed = parseErrorMessage(errorMessage, processed.code, config, messages);
+      const position = parsed.line ? null : findRenderErrorPosition(error, processed.code);
+      return err({
+        ...toValidationError(
+          position ? { ...parsed, line: position.line, column: position.column } : parsed,
+          processed,
+          position?.length ?? 1,
+          messages
+        ),
+        check: 'render',
+        code: 'MMD-RENDER-FAILED',
+      });
     });
-  }
+}
 
-  return ok(trimmedBlock);
+/**
+ * Check whether an error is silenced by suppression directives in the block
+ */
+function isSuppressedError(block: CodeBlock, error: ValidationError): boolean {
+  const suppressions = block.suppressions ?? [];
+  return (
+    isSuppressed(suppressions, error.lineNumber, error.check) ||
+    isSuppressed(suppressions, error.lineNumber, error.code)
+  );
 }
 
 /**
- * Patterns for detecting mermaid in HTML blocks
+ * Drop errors silenced by suppression directives in the block
  */
-const HTML_MERMAID_PATTERNS: RegExp[] = [
-  // <pre class="mermaid">...</pre>
-  /<pre[^>]*\bclass\s*=\s*["'][^"']*\bmermaid\b[^"']*["'][^>]*>([\s\S]*?)<\/pre>/gi,
-  // <div class="mermaid">...</div>
-  /<div[^>]*\bclass\s*=\s*["'][^"']*\bmermaid\b[^"']*["'][^>]*>([\s\S]*?)<\/div>/gi,
-  // <code class="language-mermaid">...</code>
-  /<code[^>]*\bclass\s*=\s*["'][^"']*\blanguage-mermaid\b[^"']*["'][^>]*>([\s\S]*?)<\/code>/gi,
-];
+function unlessSuppressed(
+  block: CodeBlock
+): (error: ValidationError) => Result<CodeBlock, ValidationError> {
+  return (error: ValidationError): Result<CodeBlock, ValidationError> =>
+    isSuppressedError(block, error) ? ok(block) : err(error);
+}
 
 /**
- * Decode common HTML entities in mermaid code
+ * Fail with the first error not silenced by suppression directives
  */
-function decodeHtmlEntities(code: string): string {
-  return code
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&amp;/g, '&')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&nbsp;/g, ' ');
+function firstUnsuppressedError(
+  block: CodeBlock,
+  errors: ValidationError[]
+): Result<CodeBlock, ValidationError> {
+  const error = errors.find((candidate) => !isSuppressedError(block, candidate));
+  return error ? err(error) : ok(block);
 }
 
 /**
- * Extract mermaid code from HTML content
+ * Fail with every error not silenced by suppression directives
  */
-function extractMermaidFromHtml(html: string, startLine: number): CodeBlock[] {
-  const blocks: CodeBlock[] = [];
+function allUnsuppressedErrors(
+  block: CodeBlock,
+  errors: ValidationError[]
+): Result<CodeBlock, ValidationError[]> {
+  const unsuppressed = errors.filter((candidate) => !isSuppressedError(block, candidate));
+  return unsuppressed.length > 0 ? err(unsuppressed) : ok(block);
+}
 
-  for (const pattern of HTML_MERMAID_PATTERNS) {
-    // Reset regex lastIndex for each pattern
-    pattern.lastIndex = 0;
+/**
+ * Wrap a single error for the stages of the pipeline that report several
+ */
+function toErrorList(error: ValidationError): ValidationError[] {
+  return [error];
+}
 
-    for (const match of html.matchAll(pattern)) {
-      const code = match[1];
-      const decodedCode = decodeHtmlEntities(code);
+/**
+ * Validate frontmatter config and %%{init}%% directives, which mermaid
+ * silently ignores when malformed (and some platforms ignore altogether)
+ */
+function validateMermaidConfig(
+  block: CodeBlock,
+  profile: PlatformProfile,
+  messages: MessageCatalog
+): Result<CodeBlock, ValidationError> {
+  const issues = [
+    ...checkMermaidConfig(block.code),
+    ...(profile.honorsConfig ? [] : checkIgnoredConfig(block.code, profile.name)),
+  ].sort((a, b) => a.offset - b.offset);
+  const errors = issues.map(
+    (issue): ValidationError => ({
+      lineNumber: positionAt(block, issue.offset).line,
+      check: 'config',
+      code: issue.code,
+      detail: formatIssue(messages, issue.code, issue),
+      range: rangeAt(block, issue.offset, issue.length),
+    })
+  );
+  return firstUnsuppressedError(block, errors);
+}
 
-      // Calculate line number offset within the HTML block
-      const beforeMatch = html.substring(0, match.index);
-      const lineOffset = (beforeMatch.match(/\n/g) || []).length;
+/**
+ * Semantic issues and size of a parsed diagram
+ */
+interface DiagramAnalysis {
+  issues: SemanticIssue[];
+  metrics: DiagramMetrics;
+  /** Limits the metrics are checked against */
+  limits: ComplexityLimits;
+}
 
-      blocks.push({
-        code: decodedCode.trim(),
-        startLine: startLine + lineOffset,
-      });
-    }
+/**
+ * Parse the diagram into mermaid's database, then run the flowchart or
+ * sequence semantic checks against it and measure it. Finds nothing for
+ * diagrams that do not parse; the syntax check reports those.
+ */
+async function analyzeDiagram(
+  processed: CodeBlock,
+  code: string,
+  isEnabled: (check: SemanticCheck) => boolean,
+  config: MermaidRuleConfig
+): Promise<DiagramAnalysis> {
+  try {
+    return await withMermaid(config.mermaidModule, (mermaid) =>
+      analyzeDiagramDb(mermaid, processed, code, isEnabled, config)
+    );
+  } catch {
+    return { issues: [], metrics: {}, limits: config };
   }
-
-  return blocks;
 }
 
 /**
- * Extract mermaid code blocks from tokens (both fence and HTML blocks)
+ * Build the diagram database and check and measure it (throws for diagrams
+ * that do not parse)
  */
-function extractMermaidBlocks(tokens: Token[]): CodeBlock[] {
-  const blocks: CodeBlock[] = [];
+async function analyzeDiagramDb(
+  mermaid: Mermaid,
+  processed: CodeBlock,
+  code: string,
+  isEnabled: (check: SemanticCheck) => boolean,
+  config: MermaidRuleConfig
+): Promise<DiagramAnalysis> {
+  const family = getDiagramFamily(mermaid.detectType(code));
+  const limits = getDbLimits(config, family);
+  const checked =
+    (Object.keys(SEMANTIC_CHECK_DEFAULTS) as SemanticCheck[]).some(isEnabled) ||
+    config.requireDeclaredParticipants;
+  if (!(checked || hasDbLimits(limits))) {
+    return { issues: [], metrics: {}, limits };
+  }
+  if (family === 'flowchart') {
+    const diagram = await mermaid.mermaidAPI.getDiagramFromText(stripFlowchartReferences(code));
+    const db = diagram.db as unknown as FlowchartDb;
+    return {
+      issues: findFlowchartIssues(processed.code, db, isEnabled),
+      metrics: measureDiagramDb(diagram.db as unknown as MeasurableDb),
+      limits,
+    };
+  }
+  if (family === 'sequence') {
+    const diagram = await mermaid.mermaidAPI.getDiagramFromText(stripSequenceActivations(code));
+    const db = diagram.db as unknown as SequenceDb;
+    return {
+      issues: findSequenceIssues(
+        processed.code,
+        db,
+        isEnabled,
+        config.requireDeclaredParticipants ?? false
+      ),
+      metrics: measureDiagramDb(diagram.db as unknown as MeasurableDb),
+      limits,
+    };
+  }
+  if (!hasDbLimits(limits)) {
+    return { issues: [], metrics: {}, limits };
+  }
+  const diagram = await mermaid.mermaidAPI.getDiagramFromText(code);
+  return { issues: [], metrics: measureDiagramDb(diagram.db as unknown as MeasurableDb), limits };
+}
 
+/**
+ * Limits a diagram's database is checked against: flowcharts are held to
+ * mermaid's edge limit unless maxEdges is set
+ */
+function getDbLimits(config: MermaidRuleConfig, family: string): ComplexityLimits {
+  return family === 'flowchart'
+    ? { ...config, maxEdges: config.maxEdges ?? MERMAID_MAX_EDGES }
+    : config;
+}
+
+/**
+ * Report diagrams that parse but are wrong (flowchart references to undefined
+ * nodes or links, sequence activations that do not balance, unknown actors)
+ * or exceed the node, edge, depth and participant limits, one error per issue
+ */
+function checkDiagramDb(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  messages: MessageCatalog
+): ResultAsync<CodeBlock, ValidationError[]> {
+  const isEnabled = (check: SemanticCheck): boolean =>
+    config.checks?.[check] ?? SEMANTIC_CHECK_DEFAULTS[check];
+  const processed = preprocessMermaidCode(block);
+  return ResultAsync.fromSafePromise(
+    analyzeDiagram(processed, block.code, isEnabled, config)
+  ).andThen(({ issues, metrics, limits }) =>
+    allUnsuppressedErrors(block, [
+      ...issues.map(
+        (issue): ValidationError => ({
+          lineNumber: positionAt(processed, issue.offset).line,
+          check: issue.check,
+          code: codeForCheck(issue.check),
+          detail: formatIssue(messages, codeForCheck(issue.check), issue),
+          range: rangeAt(processed, issue.offset, issue.length),
+        })
+      ),
+      ...toComplexityErrors(block, metrics, limits, messages),
+    ])
+  );
+}
+
+/**
+ * Create an error pointing at the diagram type keyword
+ * (first word after frontmatter, directives and comments)
+ */
+function diagramHeaderError(
+  block: CodeBlock,
+  check: string,
+  code: string,
+  detail: string
+): ValidationError {
+  const processed = preprocessMermaidCode(block);
+  const keywordLength = processed.code.match(/^\S+/)?.[0].length ?? 1;
+  return {
+    lineNumber: positionAt(processed, 0).line,
+    check,
+    code,
+    detail,
+    range: rangeAt(processed, 0, keywordLength),
+  };
+}
+
+/**
+ * Convert the limits a diagram exceeds into errors at the diagram header
+ */
+function toComplexityErrors(
+  block: CodeBlock,
+  metrics: DiagramMetrics,
+  limits: ComplexityLimits,
+  messages: MessageCatalog
+): ValidationError[] {
+  return findLimitViolations(metrics, limits).map(({ limit, actual, max }) => {
+    const code = LIMIT_CODES[limit];
+    const params = { limit, actual, max, excess: actual - max };
+    return diagramHeaderError(block, 'complexity', code, formatMessage(messages, code, params));
+  });
+}
+
+/**
+ * Check the line count and text size limits, which need no parser
+ */
+function checkTextLimits(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  messages: MessageCatalog
+): Result<CodeBlock, ValidationError> {
+  const limits: ComplexityLimits = {
+    maxLines: config.maxLines,
+    maxTextSize: config.maxTextSize ?? MERMAID_MAX_TEXT_SIZE,
+  };
+  return firstUnsuppressedError(
+    block,
+    toComplexityErrors(block, measureText(block.code), limits, messages)
+  );
+}
+
+/**
+ * Largest diagram handed to the parser when maxInputSize is not set
+ */
+const DEFAULT_MAX_INPUT_SIZE = 1_000_000;
+
+/**
+ * Refuse diagrams too large to hand to a parser at all
+ */
+function checkInputSize(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  messages: MessageCatalog
+): Result<CodeBlock, ValidationError> {
+  const maxInputSize = config.maxInputSize ?? DEFAULT_MAX_INPUT_SIZE;
+  if (block.code.length <= maxInputSize) {
+    return ok(block);
+  }
+  return err({
+    lineNumber: positionAt(block, 0).line,
+    check: 'size',
+    code: 'MMD-INPUT-TOO-LARGE',
+    detail: formatMessage(messages, 'MMD-INPUT-TOO-LARGE', {
+      length: block.code.length,
+      max: maxInputSize,
+    }),
+  });
+}
+
+/**
+ * Get the reason a detected diagram type is rejected by the rule config, if any
+ */
+function getDiagramTypeViolation(
+  diagramType: string,
+  config: MermaidRuleConfig,
+  profile: PlatformProfile
+): { code: string; params: MessageParams } | null {
+  const family = getDiagramFamily(diagramType);
+  const matches = (name: string): boolean => matchesDiagramType(diagramType, name);
+
+  if (config.allowedTypes && !config.allowedTypes.some(matches)) {
+    return {
+      code: 'MMD-TYPE-NOT-ALLOWED',
+      params: { type: family, allowed: config.allowedTypes.join(', ') },
+    };
+  }
+  // Explicitly allowed types override the profile's list
+  if (!config.allowedTypes && profile.diagramTypes && !profile.diagramTypes.some(matches)) {
+    return {
+      code: 'MMD-TYPE-UNSUPPORTED',
+      params: {
+        type: family,
+        platform: profile.name,
+        supported: profile.diagramTypes.join(', '),
+      },
+    };
+  }
+  if (config.disallowedTypes?.some(matches)) {
+    return {
+      code: 'MMD-TYPE-DISALLOWED',
+      params: { type: family },
+    };
+  }
+  if (config.disallowBeta && BETA_DIAGRAM_TYPES.includes(family)) {
+    return {
+      code: 'MMD-BETA-TYPE',
+      params: { type: family },
+    };
+  }
+  return null;
+}
+
+/**
+ * Check the diagram type mermaid detected against allowedTypes, disallowedTypes,
+ * disallowBeta and the types the profile's platform supports
+ */
+function checkDiagramType(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  profile: PlatformProfile,
+  messages: MessageCatalog
+): Result<CodeBlock, ValidationError> {
+  const violation =
+    block.diagramType && getDiagramTypeViolation(block.diagramType, config, profile);
+  if (!violation) {
+    return ok(block);
+  }
+
+  const detail = formatMessage(messages, violation.code, violation.params);
+  return err(diagramHeaderError(block, 'type', violation.code, detail));
+}
+
+/**
+ * Codes of failures that depend on the machine or the setup rather than the
+ * diagram (timeouts, crashed workers, a mermaidModule that does not load),
+ * which are never cached
+ */
+const ENVIRONMENT_ERROR_CODES: readonly string[] = [
+  'MMD-TIMEOUT',
+  'MMD-WORKER-FAILED',
+  'MMD-MODULE-LOAD-FAILED',
+];
+
+/**
+ * Validation result as stored in the cache. Line numbers are relative to the
+ * block's start line, so the result applies wherever the block moves.
+ */
+interface CachedValidation {
+  errors: ValidationError[] | null;
+}
+
+/**
+ * Get the cache settings of a rule config, or null when caching is off
+ */
+function getCacheOptions(config: CacheRuleConfig): CacheOptions | null {
+  if (!config.cache) {
+    return null;
+  }
+  return {
+    directory: config.cacheDirectory ?? DEFAULT_CACHE_DIRECTORY,
+    maxEntries: config.cacheMaxEntries ?? DEFAULT_CACHE_MAX_ENTRIES,
+  };
+}
+
+/**
+ * Get the cache key of a block: its code and how the code maps onto the
+ * Markdown lines (relative to the block), the parser version, the rule config
+ * and the message catalog
+ */
+function getBlockCacheKey(
+  block: CodeBlock,
+  rule: string,
+  version: string,
+  config: CacheRuleConfig,
+  messages: MessageCatalog
+): string {
+  const { cache, cacheDirectory, cacheMaxEntries, ...options } = config;
+  const positions = block.positions.map(({ line, column }) => [line - block.startLine, column]);
+  return cacheKey([rule, version, options, messages, block.code, positions, block.displayMode]);
+}
+
+/**
+ * Shift the line numbers of an error by a number of lines
+ */
+function shiftError(error: ValidationError, lines: number): ValidationError {
+  return {
+    ...error,
+    lineNumber: error.lineNumber + lines,
+    ...(error.fixInfo && {
+      fixInfo: { ...error.fixInfo, lineNumber: error.fixInfo.lineNumber + lines },
+    }),
+  };
+}
+
+/**
+ * Look up the cached result of validating a block
+ */
+function readCachedValidation(
+  block: CodeBlock,
+  options: CacheOptions,
+  key: string
+): Result<CodeBlock, ValidationError[]> | undefined {
+  const cached = readCache<CachedValidation>(options, key);
+  if (!cached) {
+    return undefined;
+  }
+  return cached.errors
+    ? err(cached.errors.map((error) => shiftError(error, block.startLine)))
+    : ok(block);
+}
+
+/**
+ * Store the result of validating a block (null when it is valid)
+ */
+function writeCachedValidation(
+  block: CodeBlock,
+  options: CacheOptions,
+  key: string,
+  errors: ValidationError[] | null
+): void {
+  const cached: CachedValidation = {
+    errors: errors?.map((error) => shiftError(error, -block.startLine)) ?? null,
+  };
+  writeCache(options, key, cached);
+}
+
+// Package labels of mermaid builds ('' for the bundled one), resolved without loading them
+const mermaidLabels: Map<string, string> = new Map();
+
+/**
+ * Get the name and version of a mermaid build (the bundled one unless a module is given)
+ */
+function getMermaidLabel(mermaidModule?: string): string {
+  const specifier = mermaidModule ?? '';
+  let label = mermaidLabels.get(specifier);
+  if (label === undefined) {
+    try {
+      label = (mermaidModule ? resolveMermaidModule(mermaidModule) : resolveBundledMermaid()).label;
+    } catch {
+      label = mermaidModule ?? 'mermaid';
+    }
+    mermaidLabels.set(specifier, label);
+  }
+  return label;
+}
+
+/**
+ * Validate a single mermaid code block, reusing the cached result when caching is on
+ */
+function validateMermaidBlock(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  profile: PlatformProfile,
+  messages: MessageCatalog
+): ResultAsync<CodeBlock, ValidationError[]> {
+  // A suppressed size error skips the block rather than parsing it anyway
+  const sizeCheck = checkInputSize(block, config, messages);
+  if (sizeCheck.isErr()) {
+    return isSuppressedError(block, sizeCheck.error) ? okAsync(block) : errAsync([sizeCheck.error]);
+  }
+
+  // Only a worker can be terminated when a parser gets stuck
+  const validate = (): ResultAsync<CodeBlock, ValidationError[]> =>
+    (config.workers ?? 0) > 0 || config.timeoutMs !== undefined
+      ? validateInWorker(block, config, profile, messages)
+      : runMermaidValidation(block, config, profile, messages);
+  const options = getCacheOptions(config);
+  if (!options) {
+    return validate();
+  }
+
+  const keyConfig: MermaidRuleConfig = { ...config, profile };
+  const key = getBlockCacheKey(
+    block,
+    'mermaid',
+    getMermaidLabel(config.mermaidModule),
+    keyConfig,
+    messages
+  );
+  const cached = readCachedValidation(block, options, key);
+  if (cached) {
+    return cached.isOk() ? okAsync(cached.value) : errAsync(cached.error);
+  }
+
+  return validate()
+    .andTee(() => writeCachedValidation(block, options, key, null))
+    .orTee((errors) => {
+      if (!errors.some((error) => ENVIRONMENT_ERROR_CODES.includes(error.code))) {
+        writeCachedValidation(block, options, key, errors);
+      }
+    });
+}
+
+/**
+ * Block to validate in a pool worker, with the config it is validated against
+ */
+interface WorkerValidationRequest {
+  block: CodeBlock;
+  config: MermaidRuleConfig;
+  profile: PlatformProfile;
+  messages: MessageCatalog;
+}
+
+/**
+ * Validate a block in the worker pool, so the main thread never loads jsdom or mermaid
+ */
+function validateInWorker(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  profile: PlatformProfile,
+  messages: MessageCatalog
+): ResultAsync<CodeBlock, ValidationError[]> {
+  const request: WorkerValidationRequest = {
+    block,
+    config: { ...config, workers: 0, timeoutMs: undefined },
+    profile,
+    messages,
+  };
+  const poolSize = Math.max(config.workers ?? 0, 1);
+  return ResultAsync.fromPromise(
+    runInWorker<ValidationError[] | null>(
+      new URL(import.meta.url),
+      poolSize,
+      request,
+      config.timeoutMs
+    ),
+    (error): ValidationError[] => [
+      error instanceof WorkerTimeoutError
+        ? diagramHeaderError(
+            block,
+            'timeout',
+            'MMD-TIMEOUT',
+            formatMessage(messages, 'MMD-TIMEOUT', { timeoutMs: error.timeoutMs })
+          )
+        : {
+            lineNumber: block.startLine,
+            check: 'syntax',
+            code: 'MMD-WORKER-FAILED',
+            detail: formatMessage(messages, 'MMD-WORKER-FAILED', {
+              error: error instanceof Error ? error.message : String(error),
+            }),
+          },
+    ]
+  ).andThen((errors) => (errors ? err(errors) : ok(block)));
+}
+
+/**
+ * Validate a single mermaid code block using Result pipeline
+ */
+function runMermaidValidation(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  profile: PlatformProfile,
+  messages: MessageCatalog
+): ResultAsync<CodeBlock, ValidationError[]> {
+  const emptyCheck = checkNotEmpty(block, messages);
+
+  if (emptyCheck.isErr()) {
+    return errAsync([emptyCheck.error]);
+  }
+
+  // Semantic checks run first: an out-of-range linkStyle makes mermaid.parse throw.
+  // They report every issue; the other stages stop at the first error.
+  return checkTextLimits(emptyCheck.value, config, messages)
+    .andThen((checked) => validateMermaidConfig(checked, profile, messages))
+    .orElse(unlessSuppressed(block))
+    .mapErr(toErrorList)
+    .asyncAndThen((checked) => checkDiagramDb(checked, config, messages))
+    .andThen((checked) =>
+      parseMermaidSyntax(checked, config, messages)
+        .andThen((parsed) => checkDiagramType(parsed, config, profile, messages))
+        .andThen((typed) =>
+          config.mode === 'render' ? renderMermaidDiagram(typed, config, messages) : okAsync(typed)
+        )
+        .orElse(unlessSuppressed(block))
+        .mapErr(toErrorList)
+    );
+}
+
+/**
+ * Validate a block against each mermaid build. Errors several builds agree on
+ * are reported once, each naming the builds that reject the block.
+ */
+function validateMermaidBlockVersions(
+  block: CodeBlock,
+  config: MermaidRuleConfig,
+  profile: PlatformProfile,
+  messages: MessageCatalog,
+  mermaidModules: string[]
+): ResultAsync<CodeBlock, ValidationError[]> {
+  const validations = mermaidModules.map(async (mermaidModule) => {
+    const result = await validateMermaidBlock(
+      block,
+      { ...config, mermaidModule },
+      profile,
+      messages
+    );
+    const label = getMermaidLabel(mermaidModule);
+    return { label, result };
+  });
+
+  return ResultAsync.fromSafePromise(Promise.all(validations)).andThen((outcomes) => {
+    const rejections = new Map<string, { error: ValidationError; labels: string[] }>();
+    for (const { label, result } of outcomes) {
+      for (const error of result.isErr() ? result.error : []) {
+        const key = JSON.stringify([error.lineNumber, error.detail, error.range]);
+        const rejection = rejections.get(key) ?? { error, labels: [] };
+        rejection.labels.push(label);
+        rejections.set(key, rejection);
+      }
+    }
+    if (rejections.size === 0) {
+      return ok(block);
+    }
+    return err(
+      [...rejections.values()].map(({ error, labels }) => ({
+        ...error,
+        detail: formatMessage(messages, 'rejectedBy', {
+          detail: error.detail,
+          labels: labels.join(', '),
+        }),
+      }))
+    );
+  });
+}
+
+/**
+ * Check the diagram type keyword and the structure of a block without mermaid
+ */
+function checkBasicStructure(
+  block: CodeBlock,
+  messages: MessageCatalog
+): Result<CodeBlock, ValidationError> {
+  const processed = preprocessMermaidCode(block);
+  const declared = processed.code.match(/^[a-zA-Z][\w-]*/)?.[0];
+  if (!declared) {
+    return err({
+      lineNumber: block.startLine,
+      check: 'syntax',
+      code: 'MMD-MISSING-DIAGRAM-TYPE',
+      detail: formatDetail(messages, 'MMD-MISSING-DIAGRAM-TYPE'),
+      context: processed.code.split('\n')[0]?.trim().substring(0, 40),
+    });
+  }
+
+  const detector = DIAGRAM_KEYWORDS.get(declared);
+  if (!detector) {
+    const parsed = handleNoDiagramType(processed.code, DIAGRAM_KEYWORDS, messages);
+    return err(toValidationError(parsed, processed, 0, messages));
+  }
+
+  const errors = findStructureIssues(processed.code, getDiagramFamily(detector)).map((issue) =>
+    structureIssueError(issue, processed, messages)
+  );
+  return firstUnsuppressedError(block, errors);
+}
+
+/**
+ * Convert a structural issue into the error full mode reports for it
+ */
+function structureIssueError(
+  issue: StructureIssue,
+  processed: CodeBlock,
+  messages: MessageCatalog
+): ValidationError {
+  const before = processed.code.substring(0, issue.offset).split('\n');
+  const parsed: ParsedError = {
+    code: issue.code,
+    line: before.length,
+    column: (before.at(-1)?.length ?? 0) + 1,
+    message: formatMessage(messages, issue.code, issue.params),
+    hint: formatMessage(messages, `${issue.code}.hint`),
+    context: null,
+  };
+  const keyword = findMisspelledKeyword(parsed, processed.code, DIAGRAM_KEYWORDS);
+  const suggested = keyword ? withSuggestion(parsed, keyword, messages) : parsed;
+  return toValidationError(suggested, processed, issue.length, messages);
+}
+
+/**
+ * Basic validation without mermaid: config and directives, the diagram type
+ * keyword, then blocks, shapes and quotes (see structure.ts)
+ */
+function validateBasicBlock(
+  block: CodeBlock,
+  profile: PlatformProfile,
+  messages: MessageCatalog
+): Result<CodeBlock, ValidationError> {
+  return checkNotEmpty(block, messages)
+    .andThen((checked) => validateMermaidConfig(checked, profile, messages))
+    .andThen((checked) => checkBasicStructure(checked, messages));
+}
+
+/**
+ * Fence info string split into language and attributes,
+ * e.g. "mermaid {lint=false}" -> { lang: 'mermaid', attributes: { lint: 'false' } }
+ */
+interface FenceInfo {
+  lang: string;
+  attributes: Record<string, string>;
+}
+
+/**
+ * Parse a fence info string
+ */
+function parseFenceInfo(info: string): FenceInfo {
+  const trimmed = info.trim();
+  const lang = trimmed.match(/^[^\s{]*/)?.[0].toLowerCase() ?? '';
+  const attributes: Record<string, string> = {};
+
+  const braces = trimmed.match(/\{([^}]*)\}/);
+  for (const pair of braces?.[1].matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s,]+))/g) ??
+    []) {
+    attributes[pair[1]] = pair[2] ?? pair[3] ?? pair[4];
+  }
+
+  return { lang, attributes };
+}
+
+/**
+ * Check whether fence attributes turn linting off ({lint=false})
+ */
+function isLintDisabled(fence: FenceInfo): boolean {
+  return fence.attributes.lint === 'false';
+}
+
+/**
+ * Attach suppression directives to extracted blocks,
+ * dropping blocks in which every line is disabled
+ */
+function applySuppressions(blocks: CodeBlock[], pattern: RegExp): CodeBlock[] {
+  return blocks
+    .map((block) => ({ ...block, suppressions: parseSuppressions(block, pattern) }))
+    .filter((block) => !isFullySuppressed(block, block.suppressions));
+}
+
+/**
+ * Silence the codes of the ignoreCodes option throughout each block, so the
+ * validation pipeline treats them like suppressed checks and carries on
+ */
+function ignoreCodes(blocks: CodeBlock[], codes: string[] | undefined): CodeBlock[] {
+  if (!codes || codes.length === 0) {
+    return blocks;
+  }
+  const suppression: Suppression = {
+    fromLine: 1,
+    toLine: Number.POSITIVE_INFINITY,
+    checks: codes,
+  };
+  return blocks.map((block) => ({
+    ...block,
+    suppressions: [...(block.suppressions ?? []), suppression],
+  }));
+}
+
+/**
+ * Patterns for detecting mermaid in HTML blocks
+ */
+const HTML_MERMAID_PATTERNS: [HtmlContainer, RegExp][] = [
+  // <pre class="mermaid">...</pre>
+  ['pre', /<pre[^>]*\bclass\s*=\s*["'][^"']*\bmermaid\b[^"']*["'][^>]*>([\s\S]*?)<\/pre>/dgi],
+  // <div class="mermaid">...</div>
+  ['div', /<div[^>]*\bclass\s*=\s*["'][^"']*\bmermaid\b[^"']*["'][^>]*>([\s\S]*?)<\/div>/dgi],
+  // <code class="language-mermaid">...</code>
+  [
+    'code',
+    /<code[^>]*\bclass\s*=\s*["'][^"']*\blanguage-mermaid\b[^"']*["'][^>]*>([\s\S]*?)<\/code>/dgi,
+  ],
+];
+
+/**
+ * Common HTML entities and their decoded characters
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&amp;': '&',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Decode common HTML entities in mermaid code
+ */
+function decodeHtmlEntities<T extends MappedCode>(mapped: T): T {
+  return replaceMapped(mapped, /&(?:lt|gt|amp|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity]);
+}
+
+/**
+ * Extract the captured code of an HTML pattern match, decoded and trimmed
+ */
+function extractHtmlMatchCode(source: MappedCode, match: RegExpExecArray): MappedCode {
+  const [codeStart, codeEnd] = match.indices?.[1] ?? [0, 0];
+  return trimMapped(decodeHtmlEntities(sliceMapped(source, codeStart, codeEnd)));
+}
+
+/**
+ * Extract mermaid code from HTML content
+ */
+function extractMermaidFromHtml(
+  html: string,
+  startLine: number,
+  lines: string[],
+  containers: HtmlContainer[]
+): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const source = mapSource(html, startLine, lines);
+
+  for (const [container, pattern] of HTML_MERMAID_PATTERNS) {
+    if (!containers.includes(container)) {
+      continue;
+    }
+    // Reset regex lastIndex for each pattern
+    pattern.lastIndex = 0;
+
+    for (const match of html.matchAll(pattern)) {
+      // Calculate line number offset within the HTML block
+      const beforeMatch = html.substring(0, match.index);
+      const lineOffset = (beforeMatch.match(/\n/g) || []).length;
+
+      blocks.push({
+        ...extractHtmlMatchCode(source, match),
+        startLine: startLine + lineOffset,
+      });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Opening and closing lines of "::: lang" containers
+ */
+const CONTAINER_OPEN_PATTERN = /^\s*:::\s*([\w-]+)\s*$/;
+const CONTAINER_CLOSE_PATTERN = /^\s*:::\s*$/;
+
+/**
+ * Block tokens whose lines are code or HTML, not containers
+ */
+const VERBATIM_TOKEN_TYPES: string[] = ['fence', 'code_block', 'html_block'];
+
+/**
+ * Get the 0-based indexes of lines inside code and HTML blocks
+ */
+function getVerbatimLines(tokens: Token[]): Set<number> {
+  const verbatim = new Set<number>();
   for (const token of tokens) {
-    // Handle markdown fence blocks
+    if (token.map && VERBATIM_TOKEN_TYPES.includes(token.type)) {
+      for (let index = token.map[0]; index < token.map[1]; index++) {
+        verbatim.add(index);
+      }
+    }
+  }
+  return verbatim;
+}
+
+/**
+ * Extract the code of "::: lang" containers (Azure DevOps wiki diagrams).
+ * markdown-it has no container syntax, so the source lines are scanned directly.
+ */
+function extractContainerBlocks(tokens: Token[], lines: string[], langs: string[]): CodeBlock[] {
+  if (langs.length === 0) {
+    return [];
+  }
+
+  const verbatim = getVerbatimLines(tokens);
+  const blocks: CodeBlock[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    const lang = verbatim.has(index) ? undefined : lines[index].match(CONTAINER_OPEN_PATTERN)?.[1];
+    if (!(lang && langs.includes(lang.toLowerCase()))) {
+      continue;
+    }
+    const close = lines.findIndex((line, i) => i > index && CONTAINER_CLOSE_PATTERN.test(line));
+    if (close === -1) {
+      break;
+    }
+    // Content starts on the line after the opening line (1-based index + 2)
+    const content = lines.slice(index + 1, close).join('\n');
+    blocks.push({ ...mapSource(content, index + 2, lines), startLine: index + 1 });
+    index = close;
+  }
+  return blocks;
+}
+
+/**
+ * Extract mermaid code blocks from tokens (fence and HTML blocks, and
+ * containers on platforms that use them)
+ */
+function extractMermaidBlocks(
+  tokens: Token[],
+  lines: string[],
+  profile: PlatformProfile = PROFILES.default
+): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+
+  for (const token of tokens) {
+    // Handle markdown fence blocks (content starts on the line after the fence)
     if (token.type === 'fence') {
-      const lang = token.info.trim().toLowerCase();
-      if (lang === 'mermaid') {
+      const fence = parseFenceInfo(token.info);
+      if (profile.mermaidFences.includes(fence.lang) && !isLintDisabled(fence)) {
         blocks.push({
-          code: token.content,
+          ...mapSource(token.content, token.lineNumber + 1, lines),
           startLine: token.lineNumber,
         });
       }
@@ -590,12 +1959,54 @@ function extractMermaidBlocks(tokens: Token[]): CodeBlock[] {
 
     // Handle HTML blocks
     if (token.type === 'html_block') {
-      const htmlBlocks = extractMermaidFromHtml(token.content, token.lineNumber);
+      const htmlBlocks = extractMermaidFromHtml(
+        token.content,
+        token.lineNumber,
+        lines,
+        profile.mermaidHtml
+      );
       blocks.push(...htmlBlocks);
     }
   }
 
-  return blocks;
+  blocks.push(...extractContainerBlocks(tokens, lines, profile.mermaidContainers));
+  blocks.sort((a, b) => a.startLine - b.startLine);
+
+  return applySuppressions(blocks, MERMAID_SUPPRESSION_PATTERN);
+}
+
+/**
+ * Extensions of files read as one diagram or math expression instead of Markdown
+ */
+const DIAGRAM_FILE_EXTENSIONS: readonly string[] = ['.mmd', '.mermaid'];
+const MATH_FILE_EXTENSIONS: readonly string[] = ['.tex', '.katex'];
+
+/**
+ * Whether a linted file has one of the extensions
+ */
+function hasExtension(name: string | undefined, extensions: readonly string[]): boolean {
+  return name !== undefined && extensions.includes(extname(name).toLowerCase());
+}
+
+/**
+ * The whole of a linted file as one block
+ */
+function wholeFileBlock(lines: string[]): CodeBlock {
+  return { ...mapSource(lines.join('\n'), 1, lines), startLine: 1 };
+}
+
+/**
+ * Extract the mermaid blocks of a linted file: a diagram file is one diagram,
+ * a math file holds none and any other file is Markdown
+ */
+function extractFileMermaidBlocks(params: RuleParams, profile?: PlatformProfile): CodeBlock[] {
+  if (hasExtension(params.name, DIAGRAM_FILE_EXTENSIONS)) {
+    return applySuppressions([wholeFileBlock(params.lines)], MERMAID_SUPPRESSION_PATTERN);
+  }
+  if (hasExtension(params.name, MATH_FILE_EXTENSIONS)) {
+    return [];
+  }
+  return extractMermaidBlocks(params.parsers.markdownit.tokens, params.lines, profile);
 }
 
 /**
@@ -610,25 +2021,36 @@ const mermaidSyntaxRule: MarkdownlintRule = {
   function: async function rule(params: RuleParams, onError: OnErrorCallback): Promise<void> {
     const config = params.config ?? {};
     const useBasic = config.basic ?? false;
-    const tokens = params.parsers.markdownit.tokens;
+    const profile = resolveProfile(config.profile);
+    const messages = resolveMessages(config.locale, config.messagesFile);
+    checkHints(config.hints);
 
-    const blocks = extractMermaidBlocks(tokens);
+    const blocks = ignoreCodes(extractFileMermaidBlocks(params, profile), config.ignoreCodes);
 
     if (useBasic) {
       // Basic validation: synchronous, report errors immediately
       for (const block of blocks) {
-        validateBasicBlock(block).mapErr(onError);
+        checkInputSize(block, config, messages)
+          .andThen((checked) => validateBasicBlock(checked, profile, messages))
+          .andThen((checked) => checkTextLimits(checked, config, messages))
+          .orElse(unlessSuppressed(block))
+          .mapErr((error) => reportError(error, params.lines, onError));
       }
     } else {
       // Full validation: async, validate all blocks in parallel
+      const mermaidModules = config.mermaidModules ?? [];
       const results = await ResultAsync.combineWithAllErrors(
-        blocks.map((block) => validateMermaidBlock(block))
+        blocks.map((block) =>
+          mermaidModules.length > 0
+            ? validateMermaidBlockVersions(block, config, profile, messages, mermaidModules)
+            : validateMermaidBlock(block, config, profile, messages)
+        )
       );
 
       // Report all errors
       results.mapErr((errors) => {
-        for (const error of errors) {
-          onError(error);
+        for (const error of errors.flat()) {
+          reportError(error, params.lines, onError);
         }
       });
     }
@@ -636,39 +2058,256 @@ const mermaidSyntaxRule: MarkdownlintRule = {
 };
 
 // =============================================================================
-// KaTeX Math Validation Rule
+// Mermaid Accessibility, Style and Security Rules
 // =============================================================================
 
 /**
- * Supported code block identifiers for math/KaTeX
+ * Report the errors a check finds in each mermaid block of a document.
+ * Blocks mermaid cannot detect a diagram type for are left to mermaid-syntax.
+ */
+async function reportDiagramErrors(
+  params: RuleParams,
+  onError: OnErrorCallback,
+  findErrors: (block: CodeBlock, diagramType: string, messages: MessageCatalog) => ValidationError[]
+): Promise<void> {
+  const {
+    ignoreCodes: codes,
+    locale,
+    messagesFile,
+  } = (params.config ?? {}) as ErrorCodeRuleConfig & MessageRuleConfig;
+  const messages = resolveMessages(locale, messagesFile);
+  const blocks = ignoreCodes(extractFileMermaidBlocks(params), codes).filter((block) =>
+    block.code.trim()
+  );
+  if (blocks.length === 0) {
+    return;
+  }
+
+  const diagramTypes = await withMermaid(undefined, (mermaid) =>
+    blocks.map((block) => {
+      try {
+        return mermaid.detectType(block.code);
+      } catch {
+        return null;
+      }
+    })
+  );
+  for (const [index, block] of blocks.entries()) {
+    const diagramType = diagramTypes[index];
+    if (diagramType === null) {
+      continue;
+    }
+    for (const error of findErrors(block, diagramType, messages)) {
+      if (!isSuppressedError(block, error)) {
+        reportError(error, params.lines, onError);
+      }
+    }
+  }
+}
+
+/**
+ * Convert an accessibility issue into a validation error; missing fields are
+ * reported at the diagram header
+ */
+function toAccessibilityError(
+  block: CodeBlock,
+  issue: AccessibilityIssue,
+  messages: MessageCatalog
+): ValidationError {
+  const code = codeForCheck(issue.check);
+  const detail = formatIssue(messages, code, issue);
+  if (issue.offset === undefined) {
+    return diagramHeaderError(block, issue.check, code, detail);
+  }
+  return {
+    lineNumber: positionAt(block, issue.offset).line,
+    check: issue.check,
+    code,
+    detail,
+    range: rangeAt(block, issue.offset, issue.length ?? 1),
+  };
+}
+
+/**
+ * Find accessibility errors in a diagram, unless its type is exempt
+ */
+function findAccessibilityErrors(
+  block: CodeBlock,
+  diagramType: string,
+  config: AccessibilityRuleConfig,
+  messages: MessageCatalog
+): ValidationError[] {
+  if (config.exemptTypes?.some((name) => matchesDiagramType(diagramType, name))) {
+    return [];
+  }
+  return findAccessibilityIssues(block.code, config.minDescriptionLength ?? 0).map((issue) =>
+    toAccessibilityError(block, issue, messages)
+  );
+}
+
+/**
+ * The mermaid accessibility markdownlint custom rule
+ */
+const mermaidAccessibilityRule: MarkdownlintRule = {
+  names: ['mermaid-accessibility'],
+  description: 'Mermaid diagrams should have an accessible title and description',
+  tags: ['mermaid-diagram', 'accessibility'],
+  parser: 'markdownit',
+  asynchronous: true,
+  function: async function rule(params: RuleParams, onError: OnErrorCallback): Promise<void> {
+    const config = (params.config ?? {}) as AccessibilityRuleConfig;
+    await reportDiagramErrors(params, onError, (block, diagramType, messages) =>
+      findAccessibilityErrors(block, diagramType, config, messages)
+    );
+  },
+};
+
+/**
+ * Create fixInfo replacing text in a block, or undefined when the text does
+ * not map to a single unaltered span of the Markdown line
+ */
+function toReplacementFix(
+  block: CodeBlock,
+  offset: number,
+  length: number,
+  text: string
+): FixInfo | undefined {
+  const start = positionAt(block, offset);
+  const end = positionAt(block, offset + length);
+  if (end.line !== start.line || end.column - start.column !== length) {
+    return undefined;
+  }
+  return {
+    lineNumber: start.line,
+    editColumn: start.column,
+    deleteCount: length,
+    insertText: text,
+  };
+}
+
+/**
+ * Find deviations from the configured style in a diagram
+ */
+function findStyleErrors(
+  block: CodeBlock,
+  diagramType: string,
+  config: MermaidStyleRuleConfig,
+  messages: MessageCatalog
+): ValidationError[] {
+  const processed = preprocessMermaidCode(block);
+  return findStyleIssues(processed.code, diagramType, config).map((issue): ValidationError => {
+    const error: ValidationError = {
+      lineNumber: positionAt(processed, issue.offset).line,
+      check: issue.check,
+      code: codeForCheck(issue.check),
+      detail: formatIssue(messages, codeForCheck(issue.check), issue),
+      range: rangeAt(processed, issue.offset, issue.length),
+    };
+    const fixInfo =
+      issue.replacement === undefined
+        ? undefined
+        : toReplacementFix(processed, issue.offset, issue.length, issue.replacement);
+    return fixInfo ? { ...error, fixInfo } : error;
+  });
+}
+
+/**
+ * The mermaid style markdownlint custom rule
+ */
+const mermaidStyleRule: MarkdownlintRule = {
+  names: ['mermaid-style'],
+  description: 'Mermaid diagrams should follow the configured style',
+  tags: ['mermaid-diagram', 'style'],
+  parser: 'markdownit',
+  asynchronous: true,
+  function: async function rule(params: RuleParams, onError: OnErrorCallback): Promise<void> {
+    const config = (params.config ?? {}) as MermaidStyleRuleConfig;
+    await reportDiagramErrors(params, onError, (block, diagramType, messages) =>
+      findStyleErrors(block, diagramType, config, messages)
+    );
+  },
+};
+
+/**
+ * Find interactions, HTML and config overrides that can run scripts in a diagram
  */
-const KATEX_LANGS: string[] = ['math', 'latex', 'tex', 'katex'];
+function findSecurityErrors(
+  block: CodeBlock,
+  diagramType: string,
+  config: MermaidSecurityRuleConfig,
+  messages: MessageCatalog
+): ValidationError[] {
+  const policy = {
+    allowedSchemes: (config.allowedSchemes ?? DEFAULT_ALLOWED_SCHEMES).map((scheme) =>
+      scheme.toLowerCase().replace(/:$/, '')
+    ),
+    forbidCallbacks: config.forbidCallbacks ?? false,
+  };
+  return findSecurityIssues(block.code, getDiagramFamily(diagramType), policy).map(
+    (issue): ValidationError => ({
+      lineNumber: positionAt(block, issue.offset).line,
+      check: issue.check,
+      code: codeForCheck(issue.check),
+      detail: formatIssue(messages, codeForCheck(issue.check), issue),
+      range: rangeAt(block, issue.offset, issue.length),
+    })
+  );
+}
+
+/**
+ * The mermaid security markdownlint custom rule
+ */
+const mermaidSecurityRule: MarkdownlintRule = {
+  names: ['mermaid-security'],
+  description: 'Mermaid diagrams should not run scripts',
+  tags: ['mermaid-diagram', 'security'],
+  parser: 'markdownit',
+  asynchronous: true,
+  function: async function rule(params: RuleParams, onError: OnErrorCallback): Promise<void> {
+    const config = (params.config ?? {}) as MermaidSecurityRuleConfig;
+    await reportDiagramErrors(params, onError, (block, diagramType, messages) =>
+      findSecurityErrors(block, diagramType, config, messages)
+    );
+  },
+};
+
+// =============================================================================
+// KaTeX Math Validation Rule
+// =============================================================================
 
 /**
  * Patterns for detecting math in HTML blocks
  */
-const HTML_KATEX_PATTERNS: RegExp[] = [
+const HTML_KATEX_PATTERNS: [HtmlContainer, RegExp][] = [
   // <span class="math">...</span>
-  /<span[^>]*\bclass\s*=\s*["'][^"']*\bmath\b[^"']*["'][^>]*>([\s\S]*?)<\/span>/gi,
+  ['span', /<span[^>]*\bclass\s*=\s*["'][^"']*\bmath\b[^"']*["'][^>]*>([\s\S]*?)<\/span>/dgi],
   // <div class="math">...</div>
-  /<div[^>]*\bclass\s*=\s*["'][^"']*\bmath\b[^"']*["'][^>]*>([\s\S]*?)<\/div>/gi,
+  ['div', /<div[^>]*\bclass\s*=\s*["'][^"']*\bmath\b[^"']*["'][^>]*>([\s\S]*?)<\/div>/dgi],
   // <code class="language-math">...</code>
-  /<code[^>]*\bclass\s*=\s*["'][^"']*\blanguage-(?:math|latex|tex|katex)\b[^"']*["'][^>]*>([\s\S]*?)<\/code>/gi,
+  [
+    'code',
+    /<code[^>]*\bclass\s*=\s*["'][^"']*\blanguage-(?:math|latex|tex|katex)\b[^"']*["'][^>]*>([\s\S]*?)<\/code>/dgi,
+  ],
 ];
 
 /**
- * Extract math code blocks from tokens (both fence and HTML blocks)
+ * Extract math code blocks from tokens (fence and HTML blocks, and math
+ * delimited in text), as far as the profile's platform recognizes them
  */
-function extractKatexBlocks(tokens: Token[]): CodeBlock[] {
+function extractKatexBlocks(
+  tokens: Token[],
+  lines: string[],
+  profile: PlatformProfile
+): CodeBlock[] {
   const blocks: CodeBlock[] = [];
 
   for (const token of tokens) {
-    // Handle markdown fence blocks
+    // Handle markdown fence blocks (content starts on the line after the fence)
     if (token.type === 'fence') {
-      const lang = token.info.trim().toLowerCase();
-      if (KATEX_LANGS.includes(lang)) {
+      const fence = parseFenceInfo(token.info);
+      if (profile.mathFences.includes(fence.lang) && !isLintDisabled(fence)) {
         blocks.push({
-          code: token.content,
+          ...mapSource(token.content, token.lineNumber + 1, lines),
           startLine: token.lineNumber,
         });
       }
@@ -677,32 +2316,69 @@ function extractKatexBlocks(tokens: Token[]): CodeBlock[] {
 
     // Handle HTML blocks
     if (token.type === 'html_block') {
-      const htmlBlocks = extractKatexFromHtml(token.content, token.lineNumber);
+      const htmlBlocks = extractKatexFromHtml(
+        token.content,
+        token.lineNumber,
+        lines,
+        profile.mathHtml
+      );
       blocks.push(...htmlBlocks);
+      continue;
+    }
+
+    // Handle $...$, $$...$$ and $`...`$ in paragraph (and heading) inline content
+    if (token.type === 'inline') {
+      const inlineBlocks = extractKatexFromInline(
+        token.content,
+        token.lineNumber,
+        lines,
+        profile.mathDelimiters
+      );
+      blocks.push(...inlineBlocks);
     }
   }
 
-  return blocks;
+  return applySuppressions(blocks, KATEX_SUPPRESSION_PATTERN);
+}
+
+/**
+ * Extract the math blocks of a linted file: a math file is one expression,
+ * a diagram file holds none and any other file is Markdown
+ */
+function extractFileKatexBlocks(params: RuleParams, profile: PlatformProfile): CodeBlock[] {
+  if (hasExtension(params.name, MATH_FILE_EXTENSIONS)) {
+    return applySuppressions([wholeFileBlock(params.lines)], KATEX_SUPPRESSION_PATTERN);
+  }
+  if (hasExtension(params.name, DIAGRAM_FILE_EXTENSIONS)) {
+    return [];
+  }
+  return extractKatexBlocks(params.parsers.markdownit.tokens, params.lines, profile);
 }
 
 /**
  * Extract math code from HTML content
  */
-function extractKatexFromHtml(html: string, startLine: number): CodeBlock[] {
+function extractKatexFromHtml(
+  html: string,
+  startLine: number,
+  lines: string[],
+  containers: HtmlContainer[]
+): CodeBlock[] {
   const blocks: CodeBlock[] = [];
+  const source = mapSource(html, startLine, lines);
 
-  for (const pattern of HTML_KATEX_PATTERNS) {
+  for (const [container, pattern] of HTML_KATEX_PATTERNS) {
+    if (!containers.includes(container)) {
+      continue;
+    }
     pattern.lastIndex = 0;
 
     for (const match of html.matchAll(pattern)) {
-      const code = match[1];
-      const decodedCode = decodeHtmlEntities(code);
-
       const beforeMatch = html.substring(0, match.index);
       const lineOffset = (beforeMatch.match(/\n/g) || []).length;
 
       blocks.push({
-        code: decodedCode.trim(),
+        ...extractHtmlMatchCode(source, match),
         startLine: startLine + lineOffset,
       });
     }
@@ -711,46 +2387,204 @@ function extractKatexFromHtml(html: string, startLine: number): CodeBlock[] {
   return blocks;
 }
 
+/**
+ * Dollar-delimited math span found in inline content
+ */
+interface DollarMath {
+  code: string;
+  offset: number;
+  displayMode: boolean;
+  delimiter: MathDelimiter;
+}
+
+/**
+ * Math written as $`...`$ (GitHub and GitLab); group 1 is the math
+ */
+const BACKTICK_MATH_PATTERN = /\$`([^`]+)`\$/dg;
+
+/**
+ * Replace code spans with spaces so their content is never treated as math.
+ * Length and newlines are preserved to keep offsets and line numbers intact.
+ */
+function maskCodeSpans(text: string): string {
+  return text.replace(/(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/g, (span) => span.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Find the closing $$ of a display math span
+ */
+function findDisplayMathEnd(text: string, from: number): number {
+  for (let i = from; i < text.length - 1; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '$' && text[i + 1] === '$') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find the closing $ of an inline math span.
+ * The next unescaped $ must follow a non-space character and must not be
+ * followed by a digit, so currency such as "$5 and $10" is not math.
+ */
+function findInlineMathEnd(text: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '$') {
+      return /\s/.test(text[i - 1]) || /\d/.test(text[i + 1] ?? '') ? -1 : i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find $...$ and $$...$$ math spans in inline text
+ */
+function findDollarMath(text: string): DollarMath[] {
+  const spans: DollarMath[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] !== '$') {
+      i++;
+      continue;
+    }
+
+    if (text[i + 1] === '$') {
+      const end = findDisplayMathEnd(text, i + 2);
+      if (end === -1) {
+        break;
+      }
+      spans.push({
+        code: text.substring(i + 2, end),
+        offset: i + 2,
+        displayMode: true,
+        delimiter: 'doubleDollar',
+      });
+      i = end + 2;
+      continue;
+    }
+
+    // An opening $ must be followed by a non-space character
+    const end = /\S/.test(text[i + 1] ?? '') ? findInlineMathEnd(text, i + 2) : -1;
+    if (end === -1) {
+      i++;
+      continue;
+    }
+    spans.push({
+      code: text.substring(i + 1, end),
+      offset: i + 1,
+      displayMode: false,
+      delimiter: 'dollar',
+    });
+    i = end + 1;
+  }
+
+  return spans;
+}
+
+/**
+ * Find $`...`$ math spans in inline text (before code spans are masked)
+ */
+function findBacktickMath(text: string): DollarMath[] {
+  return [...text.matchAll(BACKTICK_MATH_PATTERN)].map((match) => ({
+    code: match[1],
+    offset: match.indices?.[1]?.[0] ?? match.index,
+    displayMode: false,
+    delimiter: 'backtickDollar',
+  }));
+}
+
+/**
+ * Extract dollar-delimited math from inline token content
+ */
+function extractKatexFromInline(
+  content: string,
+  startLine: number,
+  lines: string[],
+  delimiters: MathDelimiter[]
+): CodeBlock[] {
+  if (!content.includes('$')) {
+    return [];
+  }
+
+  const blocks: CodeBlock[] = [];
+  const source = mapSource(content, startLine, lines);
+  const spans = [
+    ...findDollarMath(maskCodeSpans(content)),
+    ...(delimiters.includes('backtickDollar') ? findBacktickMath(content) : []),
+  ]
+    .filter((span) => delimiters.includes(span.delimiter))
+    .sort((a, b) => a.offset - b.offset);
+
+  for (const span of spans) {
+    const math = trimMapped(sliceMapped(source, span.offset, span.offset + span.code.length));
+
+    // Report from the first non-blank character so multi-line $$ blocks map exactly
+    blocks.push({
+      ...math,
+      startLine: positionAt(math, 0).line,
+      displayMode: span.displayMode,
+    });
+  }
+
+  return blocks;
+}
+
 /**
  * Check if KaTeX code is not empty
  */
-function checkKatexNotEmpty(block: CodeBlock): Result<CodeBlock, ValidationError> {
+function checkKatexNotEmpty(
+  block: CodeBlock,
+  messages: MessageCatalog
+): Result<CodeBlock, ValidationError> {
   const trimmed = block.code.trim();
   if (!trimmed) {
     return err({
       lineNumber: block.startLine,
-      detail: 'Empty math block. Add a LaTeX expression (e.g., E = mc^2)',
+      check: 'empty',
+      code: 'KTX-EMPTY',
+      detail: formatDetail(messages, 'KTX-EMPTY'),
     });
   }
-  return ok({ code: trimmed, startLine: block.startLine });
+  return ok(trimMapped(block));
 }
 
 /**
- * Get hint for common KaTeX error messages
+ * Get the error code for common KaTeX error messages
  */
-function getKatexErrorHint(message: string): string {
+function getKatexErrorCode(message: string): string {
   if (message.includes('Undefined control sequence')) {
-    return '. Check for typos in command names or use \\text{} for regular text';
+    return 'KTX-UNDEFINED-CS';
   }
   if (message.includes("Expected '}'")) {
-    return '. Make sure all braces {} are properly closed';
+    return 'KTX-UNCLOSED-BRACE';
   }
   if (message.includes('Expected group')) {
-    return '. Add the required argument in braces: \\command{argument}';
+    return 'KTX-MISSING-ARGUMENT';
   }
   if (message.includes('Unexpected end of input')) {
-    return '. The expression is incomplete - check for missing closing braces or arguments';
+    return 'KTX-UNEXPECTED-END';
   }
-  return '';
+  return 'KTX-PARSE-ERROR';
 }
 
 /**
- * Calculate error line from position offset
+ * Get the hint of a KaTeX error code (KTX-PARSE-ERROR has none)
  */
-function calculateKatexErrorLine(code: string, position: number, startLine: number): number {
-  const beforeError = code.substring(0, position);
-  const lineOffset = (beforeError.match(/\n/g) || []).length;
-  return startLine + lineOffset;
+function getKatexHint(code: string, messages: MessageCatalog): string | null {
+  return code === 'KTX-PARSE-ERROR' ? null : formatMessage(messages, `${code}.hint`);
 }
 
 /**
@@ -765,33 +2599,43 @@ function extractKatexContext(code: string, position: number): string {
 /**
  * Parse KaTeX error and create user-friendly message
  */
-function parseKatexError(error: unknown, block: CodeBlock): ValidationError {
+function parseKatexError(
+  error: unknown,
+  block: CodeBlock,
+  messages: MessageCatalog,
+  hints: KatexHints | undefined
+): ValidationError {
   if (error instanceof katexParser.ParseError) {
     const message = error.message;
-    const position = (error as InstanceType<typeof katexParser.ParseError> & { position?: number })
-      .position;
+    const { position, length } = error as InstanceType<typeof katexParser.ParseError> & {
+      position?: number;
+      length?: number;
+    };
 
     const cleanMessage = message.replace(/^KaTeX parse error:\s*/i, '');
-    const hint = getKatexErrorHint(cleanMessage);
+    const code = getKatexErrorCode(cleanMessage);
+    const text = { message: cleanMessage, hint: getKatexHint(code, messages) };
+    const detail = formatErrorDetail(applyHints(text, message, hints), messages);
 
-    const errorLine =
-      typeof position === 'number'
-        ? calculateKatexErrorLine(block.code, position, block.startLine)
-        : block.startLine;
-
-    const context =
-      typeof position === 'number' ? extractKatexContext(block.code, position) : undefined;
+    if (typeof position !== 'number') {
+      return { lineNumber: block.startLine, check: 'syntax', code, detail };
+    }
 
     return {
-      lineNumber: errorLine,
-      detail: cleanMessage + hint,
-      context,
+      lineNumber: positionAt(block, position).line,
+      check: 'syntax',
+      code,
+      detail,
+      context: extractKatexContext(block.code, position),
+      range: rangeAt(block, position, length ?? 1),
     };
   }
 
   // Unknown error type
   return {
     lineNumber: block.startLine,
+    check: 'syntax',
+    code: 'KTX-PARSE-ERROR',
     detail: error instanceof Error ? error.message : 'Unknown KaTeX parse error',
     context: block.code.substring(0, 40),
   };
@@ -802,34 +2646,60 @@ function parseKatexError(error: unknown, block: CodeBlock): ValidationError {
  */
 function validateKatexSyntax(
   block: CodeBlock,
-  config: KatexRuleConfig
+  config: KatexRuleConfig,
+  messages: MessageCatalog
 ): Result<CodeBlock, ValidationError> {
   try {
     // Use katex.__parse for validation (doesn't render, just parses)
     katexParser.__parse(block.code, {
-      displayMode: config.displayMode ?? false,
+      displayMode: block.displayMode ?? config.displayMode ?? false,
       strict: config.strict ?? false,
     });
     return ok(block);
   } catch (error) {
-    return err(parseKatexError(error, block));
+    return err(parseKatexError(error, block, messages, config.hints));
   }
 }
 
 /**
- * Validate a single KaTeX code block
+ * Validate a single KaTeX code block, reusing the cached result when caching is on
  */
 function validateKatexBlock(
   block: CodeBlock,
-  config: KatexRuleConfig
+  config: KatexRuleConfig,
+  messages: MessageCatalog
+): Result<CodeBlock, ValidationError> {
+  const options = getCacheOptions(config);
+  if (!options) {
+    return runKatexValidation(block, config, messages);
+  }
+
+  const key = getBlockCacheKey(block, 'katex', `katex ${katex.version}`, config, messages);
+  const cached = readCachedValidation(block, options, key);
+  if (cached) {
+    return cached.mapErr(([error]) => error);
+  }
+
+  return runKatexValidation(block, config, messages)
+    .andTee(() => writeCachedValidation(block, options, key, null))
+    .orTee((error) => writeCachedValidation(block, options, key, [error]));
+}
+
+/**
+ * Validate a single KaTeX code block
+ */
+function runKatexValidation(
+  block: CodeBlock,
+  config: KatexRuleConfig,
+  messages: MessageCatalog
 ): Result<CodeBlock, ValidationError> {
-  const emptyCheck = checkKatexNotEmpty(block);
+  const emptyCheck = checkKatexNotEmpty(block, messages);
 
   if (emptyCheck.isErr()) {
     return emptyCheck;
   }
 
-  return validateKatexSyntax(emptyCheck.value, config);
+  return validateKatexSyntax(emptyCheck.value, config, messages).orElse(unlessSuppressed(block));
 }
 
 /**
@@ -843,16 +2713,50 @@ const katexSyntaxRule: MarkdownlintRule = {
   asynchronous: false,
   function: function rule(params: RuleParams, onError: OnErrorCallback): void {
     const config = (params.config ?? {}) as KatexRuleConfig;
-    const tokens = params.parsers.markdownit.tokens;
+    const messages = resolveMessages(config.locale, config.messagesFile);
+    checkHints(config.hints);
 
-    const blocks = extractKatexBlocks(tokens);
+    const blocks = ignoreCodes(
+      extractFileKatexBlocks(params, resolveProfile(config.profile)),
+      config.ignoreCodes
+    );
 
     // Validate all blocks (synchronous)
     for (const block of blocks) {
-      validateKatexBlock(block, config).mapErr(onError);
+      validateKatexBlock(block, config, messages).mapErr((error) =>
+        reportError(error, params.lines, onError)
+      );
     }
   },
 };
 
+// Pool workers run this module to validate the blocks the rule sends them
+if (isPoolWorker()) {
+  serveWorkerRequests(
+    (payload) => {
+      const { block, config, profile, messages } = payload as WorkerValidationRequest;
+      return runMermaidValidation(block, config, profile, messages).match(
+        () => null,
+        (errors) => errors
+      );
+    },
+    () => withMermaid(undefined, () => undefined)
+  );
+}
+
 export default mermaidSyntaxRule;
-export { mermaidSyntaxRule, katexSyntaxRule };
+export {
+  mermaidSyntaxRule,
+  mermaidAccessibilityRule,
+  mermaidStyleRule,
+  mermaidSecurityRule,
+  katexSyntaxRule,
+  PROFILES,
+  ERROR_CODES,
+  MESSAGE_CATALOGS,
+  clearCache,
+  closeWorkerPool,
+};
+export type { ErrorCodeInfo } from './error-codes.js';
+export type { MessageCatalog } from './messages.js';
+export type { PlatformProfile, ProfileConfig } from './profiles.js';
@@ -0,0 +1,230 @@
+/**
+ * Validation of diagram configuration: YAML frontmatter and %%{init}%% directives
+ *
+ * Mermaid silently ignores malformed directives and unknown config keys, so a
+ * typo only shows up as a diagram that renders differently. The checks here
+ * report them with the offset of the offending text in the diagram code.
+ */
+
+import { isMap, isScalar, type Node, parseDocument } from 'yaml';
+import {
+  type ConfigSchema,
+  type ConfigValue,
+  FRONTMATTER_SCHEMA,
+  INIT_DIRECTIVE_SCHEMA,
+} from './config-schema.js';
+import type { IssueMessage } from './messages.js';
+import { suggestClosest } from './suggest.js';
+
+/**
+ * Patterns mermaid uses to find frontmatter and directives
+ */
+export const MERMAID_FRONTMATTER_PATTERN: RegExp = /^-{3}\s*[\n\r](.*?)[\n\r]-{3}\s*[\n\r]+/dgs;
+export const MERMAID_DIRECTIVE_PATTERN: RegExp =
+  /%{2}{\s*(?:(\w+)\s*:|(\w+))\s*(?:(\w+)|((?:(?!}%{2}).|\r?\n)*))?\s*(?:}%{2})?/dgi;
+
+/**
+ * Directive types that carry MermaidConfig
+ */
+const INIT_DIRECTIVE_TYPES: string[] = ['init', 'initialize'];
+
+/**
+ * Problem found in a diagram's configuration
+ */
+export interface ConfigIssue extends IssueMessage {
+  /** Offset of the offending text in the diagram code */
+  offset: number;
+  length: number;
+  /** Stable error code (see ERROR_CODES) */
+  code: string;
+}
+
+/**
+ * Report a key missing from the schema, suggesting the closest known key
+ */
+function unknownKeyIssue(
+  key: string,
+  path: string,
+  schema: ConfigSchema,
+  range: [number, number],
+  baseOffset: number
+): ConfigIssue {
+  const suggestion = suggestClosest(key, Object.keys(schema));
+  const qualify = (name: string): string => (path ? `${path}.${name}` : name);
+  return {
+    offset: baseOffset + range[0],
+    length: range[1] - range[0],
+    code: 'MMD-UNKNOWN-CONFIG-KEY',
+    params: { key: qualify(key) },
+    suggestion: suggestion && qualify(suggestion),
+  };
+}
+
+/**
+ * Check the keys and enum values of a parsed config node against a schema
+ */
+function checkConfigNode(
+  node: Node | null | undefined,
+  schema: ConfigSchema,
+  path: string,
+  baseOffset: number
+): ConfigIssue[] {
+  if (!isMap(node)) {
+    return [];
+  }
+
+  const issues: ConfigIssue[] = [];
+  for (const pair of node.items) {
+    if (!(isScalar(pair.key) && pair.key.range)) {
+      continue;
+    }
+    const key = String(pair.key.value);
+    const keyPath = path ? `${path}.${key}` : key;
+
+    if (!Object.hasOwn(schema, key)) {
+      const [start, end] = pair.key.range;
+      issues.push(unknownKeyIssue(key, path, schema, [start, end], baseOffset));
+      continue;
+    }
+
+    const entry: ConfigSchema | ConfigValue = schema[key];
+    if (Array.isArray(entry)) {
+      issues.push(...checkConfigValue(pair.value as Node | null, entry, keyPath, baseOffset));
+    } else if (entry !== null) {
+      issues.push(
+        ...checkConfigNode(pair.value as Node | null, entry as ConfigSchema, keyPath, baseOffset)
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check a scalar value against the allowed values of an enum key
+ */
+function checkConfigValue(
+  node: Node | null,
+  allowed: readonly string[],
+  keyPath: string,
+  baseOffset: number
+): ConfigIssue[] {
+  if (!(isScalar(node) && node.range)) {
+    return [];
+  }
+  const value = String(node.value);
+  if (allowed.includes(value)) {
+    return [];
+  }
+
+  const suggestion = suggestClosest(value, allowed);
+  const [start, end] = node.range;
+  return [
+    {
+      offset: baseOffset + start,
+      length: end - start,
+      code: 'MMD-INVALID-CONFIG-VALUE',
+      variant: suggestion === null ? 'expected' : undefined,
+      params: { value, key: keyPath, allowed: allowed.join(', ') },
+      suggestion,
+    },
+  ];
+}
+
+/**
+ * Check the YAML frontmatter at the start of a diagram
+ */
+function checkFrontmatter(code: string): ConfigIssue[] {
+  const match = [...code.matchAll(MERMAID_FRONTMATTER_PATTERN)][0];
+  const indices = match?.indices?.[1];
+  if (!indices) {
+    return [];
+  }
+
+  const [bodyOffset] = indices;
+  const document = parseDocument(match[1], { prettyErrors: false });
+  const [error] = document.errors;
+  if (error) {
+    return [
+      {
+        offset: bodyOffset + error.pos[0],
+        length: Math.max(1, error.pos[1] - error.pos[0]),
+        code: 'MMD-INVALID-FRONTMATTER',
+        params: { error: error.message },
+      },
+    ];
+  }
+
+  return checkConfigNode(document.contents, FRONTMATTER_SCHEMA, '', bodyOffset);
+}
+
+/**
+ * Check the JSON arguments of %%{init: ...}%% directives
+ */
+function checkInitDirectives(code: string): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  for (const match of code.matchAll(MERMAID_DIRECTIVE_PATTERN)) {
+    const type = (match[1] ?? match[2] ?? '').toLowerCase();
+    const indices = match.indices?.[4];
+    if (!(INIT_DIRECTIVE_TYPES.includes(type) && indices && match[4].trim())) {
+      continue;
+    }
+
+    // Mermaid accepts single quotes by replacing them before JSON.parse
+    const args = match[4].trimEnd().replace(/'/g, '"');
+    const argsOffset = indices[0];
+
+    try {
+      JSON.parse(args);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown JSON error';
+      const position = Number(message.match(/at position (\d+)/)?.[1] ?? 0);
+      issues.push({
+        offset: argsOffset + position,
+        length: 1,
+        code: 'MMD-INVALID-DIRECTIVE',
+        params: { type, error: message.replace(/\s+in JSON at position.*$/, '') },
+      });
+      continue;
+    }
+
+    // JSON is valid YAML, which gives us the position of every key
+    const document = parseDocument(args);
+    issues.push(...checkConfigNode(document.contents, INIT_DIRECTIVE_SCHEMA, '', argsOffset));
+  }
+
+  return issues;
+}
+
+/**
+ * Find configuration problems in diagram code, in source order
+ */
+export function checkMermaidConfig(code: string): ConfigIssue[] {
+  return [...checkFrontmatter(code), ...checkInitDirectives(code)].sort(
+    (a, b) => a.offset - b.offset
+  );
+}
+
+/**
+ * Report frontmatter and directives on a platform that ignores them
+ */
+export function checkIgnoredConfig(code: string, platform: string): ConfigIssue[] {
+  const frontmatter = [...code.matchAll(MERMAID_FRONTMATTER_PATTERN)].map(
+    (match): ConfigIssue => ({
+      offset: match.index,
+      length: 3,
+      code: 'MMD-IGNORED-CONFIG',
+      params: { platform },
+    })
+  );
+  const directives = [...code.matchAll(MERMAID_DIRECTIVE_PATTERN)].map(
+    (match): ConfigIssue => ({
+      offset: match.index,
+      length: match[0].length,
+      code: 'MMD-IGNORED-CONFIG',
+      variant: 'directive',
+      params: { platform, directive: match[1] ?? match[2] },
+    })
+  );
+  return [...frontmatter, ...directives];
+}
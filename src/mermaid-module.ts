@@ -0,0 +1,62 @@
+/**
+ * Resolution of mermaid builds
+ *
+ * Specifiers given by the user are resolved from the working directory, so
+ * both paths ("./vendor/mermaid.esm.min.mjs") and packages installed in the
+ * project ("mermaid-10" as an npm alias of mermaid@10) work. The bundled
+ * mermaid is resolved from this package, whatever the project installs.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+/**
+ * A resolved mermaid build
+ */
+export interface MermaidModuleInfo {
+  /** File URL to import */
+  url: string;
+  /** Package name and version (e.g. "mermaid 10.9.1"), or the specifier */
+  label: string;
+}
+
+/**
+ * Find the name and version of the package a file belongs to
+ */
+function findPackageLabel(file: string): string | null {
+  for (let dir = dirname(file); ; dir = dirname(dir)) {
+    const manifest = join(dir, 'package.json');
+    if (existsSync(manifest)) {
+      const { name, version } = JSON.parse(readFileSync(manifest, 'utf8')) as {
+        name?: string;
+        version?: string;
+      };
+      if (name && version) {
+        return `${name} ${version}`;
+      }
+    }
+    if (dirname(dir) === dir) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Resolve a path or package specifier of a mermaid build from the working directory
+ */
+export function resolveMermaidModule(specifier: string): MermaidModuleInfo {
+  const require = createRequire(join(process.cwd(), 'package.json'));
+  const file = require.resolve(specifier);
+  return { url: pathToFileURL(file).href, label: findPackageLabel(file) ?? specifier };
+}
+
+/**
+ * Resolve the mermaid this package depends on
+ */
+export function resolveBundledMermaid(): MermaidModuleInfo {
+  const require = createRequire(import.meta.url);
+  const file = require.resolve('mermaid');
+  return { url: pathToFileURL(file).href, label: findPackageLabel(file) ?? 'mermaid' };
+}
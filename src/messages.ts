@@ -0,0 +1,500 @@
+/**
+ * Localized error messages and hints
+ *
+ * Messages are keyed by error code, hints by the code with a ".hint" suffix;
+ * codes with several messages add a variant ("MMD-STYLE-INDENT.tabs").
+ * Templates name their parameters in braces ("Expected {token}"); braces that
+ * name no parameter are kept as they are, so examples such as "A{text}" need
+ * no escaping. Catalogs are merged over the English one, so a translation
+ * with missing keys falls back to English.
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+/**
+ * Message templates by key
+ */
+export type MessageCatalog = Record<string, string>;
+
+/**
+ * Parameters substituted into a template
+ */
+export type MessageParams = Record<string, string | number>;
+
+const EN_MESSAGES: MessageCatalog = {
+  // How a message and its hint are joined
+  detail: '{message}. {hint}',
+
+  // "Did you mean" suggestions, put in front of the hint
+  suggestion: "Did you mean '{name}'?",
+  'suggestion.hint': "Did you mean '{name}'? {hint}",
+
+  // Unclosed node shapes
+  'MMD-UNCLOSED-BRACKET': 'Unclosed square bracket',
+  'MMD-UNCLOSED-BRACKET.hint': 'Add closing ] to complete the node shape: A[text]',
+  'MMD-UNCLOSED-PAREN': 'Unclosed parenthesis',
+  'MMD-UNCLOSED-PAREN.hint': 'Add closing ) to complete the node shape: A(text) or A((text))',
+  'MMD-UNCLOSED-BRACE': 'Unclosed curly brace or diamond',
+  'MMD-UNCLOSED-BRACE.hint': 'Add closing } to complete the shape: A{text} or A{{text}}',
+  'MMD-UNCLOSED-SUBROUTINE': 'Unclosed subroutine shape',
+  'MMD-UNCLOSED-SUBROUTINE.hint': 'Add closing ]] to complete the subroutine: A[[text]]',
+  'MMD-UNCLOSED-STADIUM': 'Unclosed stadium shape',
+  'MMD-UNCLOSED-STADIUM.hint': 'Add closing ]) to complete the stadium: A([text])',
+  'MMD-UNCLOSED-CYLINDER': 'Unclosed cylinder shape',
+  'MMD-UNCLOSED-CYLINDER.hint': 'Add closing ]) to complete the cylinder: A[(text)]',
+  'MMD-UNCLOSED-DOUBLE-CIRCLE': 'Unclosed double circle shape',
+  'MMD-UNCLOSED-DOUBLE-CIRCLE.hint': 'Add closing ))) to complete the double circle: A(((text)))',
+  'MMD-UNCLOSED-TRAPEZOID': 'Unclosed trapezoid shape',
+  'MMD-UNCLOSED-TRAPEZOID.hint': 'Add closing /] to complete the trapezoid: A[/text/]',
+  'MMD-UNCLOSED-INV-TRAPEZOID': 'Unclosed inverse trapezoid shape',
+  'MMD-UNCLOSED-INV-TRAPEZOID.hint':
+    'Add closing \\] to complete the inverse trapezoid: A[\\text\\]',
+  'MMD-UNCLOSED-ASYMMETRIC': 'Unclosed asymmetric shape',
+  'MMD-UNCLOSED-ASYMMETRIC.hint': 'Add closing ] to complete the asymmetric shape: A>text]',
+
+  // Block structure
+  'MMD-UNCLOSED-BLOCK': 'Unclosed block',
+  'MMD-UNCLOSED-BLOCK.hint':
+    'Add "end" to close subgraph, loop, alt, opt, par, critical, rect, or state block',
+  'MMD-UNCLOSED-STRUCT': 'Unclosed namespace or struct block',
+  'MMD-UNCLOSED-STRUCT.hint': 'Add closing } to complete the namespace or class definition',
+  'MMD-INVALID-STRUCT': 'Invalid struct declaration',
+  'MMD-INVALID-STRUCT.hint': 'Check class syntax: class ClassName { ... }',
+
+  // Statements
+  'MMD-UNEXPECTED-TEXT': 'Unexpected text',
+  'MMD-UNEXPECTED-TEXT.hint': 'Check for missing arrows (-->, ---) or invalid syntax',
+  'MMD-INCOMPLETE-STATEMENT': 'Incomplete statement',
+  'MMD-INCOMPLETE-STATEMENT.hint':
+    'Add missing parts (e.g., colon for messages: Alice->>Bob: message)',
+  'MMD-UNEXPECTED-EOF': 'Unexpected end of diagram',
+  'MMD-UNEXPECTED-EOF.hint':
+    'Statement is incomplete - add missing node, message, or closing element',
+  'MMD-MISSING-LINK-SOURCE': 'Missing link source',
+  'MMD-MISSING-LINK-SOURCE.hint': 'Add source node before arrow: A --> B',
+  'MMD-INVALID-PARTICIPANT': 'Invalid participant reference',
+  'MMD-INVALID-PARTICIPANT.hint': 'Check participant name in note/over statement',
+  'MMD-MISSING-MESSAGE-TEXT': 'Missing message text',
+  'MMD-MISSING-MESSAGE-TEXT.hint': 'Add message after colon: Alice->>Bob: Hello',
+  'MMD-INVALID-ER-RELATIONSHIP': 'Invalid ER relationship',
+  'MMD-INVALID-ER-RELATIONSHIP.hint': 'Use valid relationship: ||--o{, }o--||, etc.',
+  'MMD-INVALID-ER-CARDINALITY': 'Invalid ER cardinality',
+  'MMD-INVALID-ER-CARDINALITY.hint': 'Check cardinality symbols: ||, |o, o|, }|, |{, etc.',
+  'MMD-INVALID-ER-ATTRIBUTES': 'Invalid ER attribute block',
+  'MMD-INVALID-ER-ATTRIBUTES.hint': 'Check attribute syntax: EntityName { type attrName }',
+  'MMD-INVALID-STATE-TRANSITION': 'Invalid state transition',
+  'MMD-INVALID-STATE-TRANSITION.hint': 'Use --> for transitions: StateA --> StateB',
+  'MMD-INVALID-TASK-DATA': 'Invalid task data',
+  'MMD-INVALID-TASK-DATA.hint': 'Check task format: taskName :status, startDate, duration',
+  'MMD-INVALID-GENERIC': 'Invalid generic type',
+  'MMD-INVALID-GENERIC.hint': 'Check generic syntax: class ClassName~Type~',
+  'MMD-INVALID-STYLE': 'Invalid style syntax',
+  'MMD-INVALID-STYLE.hint': 'Check style definition syntax',
+  'MMD-INVALID-COMMIT-REF': 'Invalid commit reference',
+  'MMD-INVALID-COMMIT-REF.hint': 'Use valid commit command: commit id: "message"',
+  'MMD-INVALID-COMMIT-TAG': 'Invalid commit tag',
+  'MMD-INVALID-COMMIT-TAG.hint': 'Use valid tag: commit tag: "v1.0"',
+
+  // Other parser errors
+  'MMD-UNEXPECTED-TOKEN': 'Syntax error: unexpected "{token}"',
+  'MMD-UNEXPECTED-TOKEN.hint': 'Check the syntax near this position',
+  'MMD-LEXICAL-ERROR': 'Unrecognized text or keyword',
+  'MMD-LEXICAL-ERROR.hint': 'Check for typos, invalid keywords, or unsupported syntax',
+  'MMD-UNKNOWN-DIAGRAM-TYPE': 'Unknown diagram type: "{line}"',
+  'MMD-UNKNOWN-DIAGRAM-TYPE.hint': 'Valid types: {types}',
+  'MMD-UNKNOWN-DIAGRAM-TYPE.empty': '(empty)',
+  'MMD-UNEXPECTED-CHARACTER': 'Unexpected character "{char}"',
+  'MMD-UNEXPECTED-CHARACTER.hint': 'Check for typos, missing quotes, or invalid characters',
+  'MMD-EXPECTED-TOKEN': 'Expected {token}',
+  'MMD-EXPECTED-TOKEN.hint': 'Check the diagram syntax and structure',
+  'MMD-INVALID-SYNTAX': 'Invalid syntax',
+  'MMD-INVALID-SYNTAX.hint': 'Check command syntax (e.g., branch name, checkout target)',
+  'MMD-PARSE-ERROR.hint': 'Check the diagram syntax for errors',
+
+  // Empty diagrams and basic mode
+  'MMD-EMPTY': 'Empty Mermaid diagram',
+  'MMD-EMPTY.hint': 'Add a diagram type (e.g., flowchart, sequenceDiagram) and content',
+  'MMD-MISSING-DIAGRAM-TYPE': 'Missing diagram type declaration',
+  'MMD-MISSING-DIAGRAM-TYPE.hint':
+    'Start with a diagram type like: flowchart, sequenceDiagram, classDiagram',
+
+  // Configuration (frontmatter and %%{init}%% directives)
+  'MMD-UNKNOWN-CONFIG-KEY': "Unknown config key '{key}'",
+  'MMD-INVALID-CONFIG-VALUE': "Invalid value '{value}' for config key '{key}'",
+  'MMD-INVALID-CONFIG-VALUE.expected':
+    "Invalid value '{value}' for config key '{key}'. Expected one of: {allowed}",
+  'MMD-INVALID-FRONTMATTER': 'Invalid YAML in frontmatter: {error}',
+  'MMD-INVALID-DIRECTIVE': 'Invalid JSON in {type} directive: {error}',
+  'MMD-IGNORED-CONFIG':
+    '{platform} ignores frontmatter. The diagram renders with the default config',
+  'MMD-IGNORED-CONFIG.directive':
+    '{platform} ignores %%{{directive}}%% directives. The diagram renders with the default config',
+
+  // Diagram types
+  'MMD-TYPE-NOT-ALLOWED': 'Diagram type "{type}" is not allowed. Allowed types: {allowed}',
+  'MMD-TYPE-UNSUPPORTED':
+    'Diagram type "{type}" is not supported by {platform}. Supported types: {supported}',
+  'MMD-TYPE-DISALLOWED': 'Diagram type "{type}" is disallowed by the disallowedTypes option',
+  'MMD-BETA-TYPE':
+    'Diagram type "{type}" is a beta diagram type, which is disallowed by the disallowBeta option',
+
+  // Size and complexity limits
+  'MMD-INPUT-TOO-LARGE':
+    'Diagram has {length} characters, more than the {max} allowed. It was not validated',
+  'MMD-TOO-MANY-LINES': 'Diagram has {actual} lines, exceeding {limit} ({max}) by {excess}',
+  'MMD-TEXT-TOO-LARGE': 'Diagram has {actual} characters, exceeding {limit} ({max}) by {excess}',
+  'MMD-TOO-MANY-NODES': 'Diagram has {actual} nodes, exceeding {limit} ({max}) by {excess}',
+  'MMD-TOO-MANY-EDGES': 'Diagram has {actual} edges, exceeding {limit} ({max}) by {excess}',
+  'MMD-SUBGRAPH-TOO-DEEP':
+    'Diagram has {actual} levels of nested subgraphs, exceeding {limit} ({max}) by {excess}',
+  'MMD-TOO-MANY-PARTICIPANTS':
+    'Diagram has {actual} participants, exceeding {limit} ({max}) by {excess}',
+
+  // Semantic checks
+  'MMD-UNDEFINED-REFERENCE': "Node '{name}' referenced by {statement} is not defined",
+  'MMD-UNUSED-CLASSDEF':
+    'classDef \'{name}\' is never used. Apply it with "class <node> {name}" or "<node>:::{name}"',
+  'MMD-LINKSTYLE-OUT-OF-RANGE':
+    'linkStyle index {index} is out of range: the diagram has {count} links (indices 0-{last})',
+  'MMD-LINKSTYLE-OUT-OF-RANGE.noLinks':
+    'linkStyle index {index} is out of range: the diagram has 0 links',
+  'MMD-UNBALANCED-ACTIVATION': "Participant '{name}' is activated but never deactivated",
+  'MMD-UNBALANCED-ACTIVATION.inactive': "Participant '{name}' is deactivated but is not active",
+  'MMD-UNDECLARED-PARTICIPANT': "Participant '{name}' is not declared with participant or actor",
+  'MMD-UNKNOWN-NOTE-ACTOR': "Note refers to '{name}', which appears in no message or declaration",
+
+  // Accessibility
+  'MMD-ACC-TITLE':
+    'Diagram has no accTitle or title. Add accTitle: <short title> for screen readers',
+  'MMD-ACC-TITLE.empty': '{keyword} is empty',
+  'MMD-ACC-TITLE.placeholder': "{keyword} '{value}' looks like a placeholder",
+  'MMD-ACC-DESCR':
+    'Diagram has no accDescr. Add accDescr: <description> (or accDescr { ... } for several lines)',
+  'MMD-ACC-DESCR.empty': '{keyword} is empty',
+  'MMD-ACC-DESCR.placeholder': "{keyword} '{value}' looks like a placeholder",
+  'MMD-ACC-DESCR.short':
+    'accDescr is {length} characters long, shorter than minDescriptionLength ({min})',
+
+  // Style
+  'MMD-STYLE-HEADER': "Use '{preferred}' instead of '{actual}'",
+  'MMD-STYLE-DIRECTION': "Use '{preferred}' instead of '{actual}' for top-to-bottom direction",
+  'MMD-STYLE-INDENT': 'Indentation of {width} spaces is not a multiple of {indent}',
+  'MMD-STYLE-INDENT.tabs': 'Indent with {indent} spaces instead of tabs',
+  'MMD-STYLE-INDENT.spaces': 'Indent with tabs instead of spaces',
+  'MMD-STYLE-QUOTED-LABELS': 'Label \'{label}\' is not quoted. Use "{label}"',
+  'MMD-STYLE-ARROW':
+    "Arrow '{arrow}' is not allowed in {family} diagrams. Allowed arrows: {allowed}",
+
+  // Security
+  'MMD-UNSAFE-URL': "URL scheme '{scheme}:' is not allowed. Allowed schemes: {allowed}",
+  'MMD-CALLBACK':
+    "Click callback '{callback}' runs JavaScript from the page. Callbacks are forbidden by the forbidCallbacks option",
+  'MMD-UNSAFE-HTML': 'HTML <{tag}> element in diagram text',
+  'MMD-UNSAFE-HTML.handler': "HTML event handler attribute '{attribute}' in diagram text",
+  'MMD-LOOSE-SECURITY-LEVEL':
+    "securityLevel 'loose' enables click callbacks and unsanitized HTML labels. Remove the override",
+
+  // Validation runs
+  'MMD-TIMEOUT': 'Mermaid validation timed out after {timeoutMs} ms',
+  'MMD-WORKER-FAILED': 'Mermaid validation worker failed: {error}',
+  // mermaidModules: the builds that reject a diagram, after its message
+  rejectedBy: '{detail} (rejected by {labels})',
+
+  // KaTeX (messages come from KaTeX, only hints are added)
+  'KTX-EMPTY': 'Empty math block',
+  'KTX-EMPTY.hint': 'Add a LaTeX expression (e.g., E = mc^2)',
+  'KTX-UNDEFINED-CS.hint': 'Check for typos in command names or use \\text{} for regular text',
+  'KTX-UNCLOSED-BRACE.hint': 'Make sure all braces {} are properly closed',
+  'KTX-MISSING-ARGUMENT.hint': 'Add the required argument in braces: \\command{argument}',
+  'KTX-UNEXPECTED-END.hint':
+    'The expression is incomplete - check for missing closing braces or arguments',
+};
+
+const JA_MESSAGES: MessageCatalog = {
+  detail: '{message}。{hint}',
+
+  suggestion: "'{name}' の誤りではありませんか？",
+  'suggestion.hint': "'{name}' の誤りではありませんか？{hint}",
+
+  'MMD-UNCLOSED-BRACKET': '角括弧が閉じられていません',
+  'MMD-UNCLOSED-BRACKET.hint': '閉じ括弧 ] を追加してノードの形を完成させてください: A[text]',
+  'MMD-UNCLOSED-PAREN': '丸括弧が閉じられていません',
+  'MMD-UNCLOSED-PAREN.hint':
+    '閉じ括弧 ) を追加してノードの形を完成させてください: A(text) または A((text))',
+  'MMD-UNCLOSED-BRACE': '波括弧（ひし形）が閉じられていません',
+  'MMD-UNCLOSED-BRACE.hint':
+    '閉じ括弧 } を追加して形を完成させてください: A{text} または A{{text}}',
+  'MMD-UNCLOSED-SUBROUTINE': 'サブルーチン形が閉じられていません',
+  'MMD-UNCLOSED-SUBROUTINE.hint': ']] を追加してサブルーチンを完成させてください: A[[text]]',
+  'MMD-UNCLOSED-STADIUM': 'スタジアム形が閉じられていません',
+  'MMD-UNCLOSED-STADIUM.hint': ']) を追加してスタジアム形を完成させてください: A([text])',
+  'MMD-UNCLOSED-CYLINDER': '円柱形が閉じられていません',
+  'MMD-UNCLOSED-CYLINDER.hint': ']) を追加して円柱形を完成させてください: A[(text)]',
+  'MMD-UNCLOSED-DOUBLE-CIRCLE': '二重円が閉じられていません',
+  'MMD-UNCLOSED-DOUBLE-CIRCLE.hint': '))) を追加して二重円を完成させてください: A(((text)))',
+  'MMD-UNCLOSED-TRAPEZOID': '台形が閉じられていません',
+  'MMD-UNCLOSED-TRAPEZOID.hint': '/] を追加して台形を完成させてください: A[/text/]',
+  'MMD-UNCLOSED-INV-TRAPEZOID': '逆台形が閉じられていません',
+  'MMD-UNCLOSED-INV-TRAPEZOID.hint': '\\] を追加して逆台形を完成させてください: A[\\text\\]',
+  'MMD-UNCLOSED-ASYMMETRIC': '非対称形が閉じられていません',
+  'MMD-UNCLOSED-ASYMMETRIC.hint': '] を追加して非対称形を完成させてください: A>text]',
+
+  'MMD-UNCLOSED-BLOCK': 'ブロックが閉じられていません',
+  'MMD-UNCLOSED-BLOCK.hint':
+    '"end" を追加して subgraph、loop、alt、opt、par、critical、rect、state のブロックを閉じてください',
+  'MMD-UNCLOSED-STRUCT': '名前空間または構造体のブロックが閉じられていません',
+  'MMD-UNCLOSED-STRUCT.hint': '閉じ括弧 } を追加して名前空間またはクラス定義を完成させてください',
+  'MMD-INVALID-STRUCT': '構造体の宣言が不正です',
+  'MMD-INVALID-STRUCT.hint': 'クラスの構文を確認してください: class ClassName { ... }',
+
+  'MMD-UNEXPECTED-TEXT': '予期しないテキストがあります',
+  'MMD-UNEXPECTED-TEXT.hint': '矢印（-->、---）の抜けや不正な構文がないか確認してください',
+  'MMD-INCOMPLETE-STATEMENT': '文が不完全です',
+  'MMD-INCOMPLETE-STATEMENT.hint':
+    '不足している部分を追加してください（例: メッセージのコロン Alice->>Bob: message）',
+  'MMD-UNEXPECTED-EOF': '図が途中で終わっています',
+  'MMD-UNEXPECTED-EOF.hint':
+    '文が完結していません。不足しているノード、メッセージ、閉じる要素を追加してください',
+  'MMD-MISSING-LINK-SOURCE': 'リンクの始点がありません',
+  'MMD-MISSING-LINK-SOURCE.hint': '矢印の前に始点のノードを追加してください: A --> B',
+  'MMD-INVALID-PARTICIPANT': '参加者の参照が不正です',
+  'MMD-INVALID-PARTICIPANT.hint': 'note / over の文の参加者名を確認してください',
+  'MMD-MISSING-MESSAGE-TEXT': 'メッセージのテキストがありません',
+  'MMD-MISSING-MESSAGE-TEXT.hint': 'コロンの後にメッセージを追加してください: Alice->>Bob: Hello',
+  'MMD-INVALID-ER-RELATIONSHIP': 'ER 図のリレーションシップが不正です',
+  'MMD-INVALID-ER-RELATIONSHIP.hint':
+    '有効なリレーションシップを使ってください: ||--o{、}o--|| など',
+  'MMD-INVALID-ER-CARDINALITY': 'ER 図のカーディナリティが不正です',
+  'MMD-INVALID-ER-CARDINALITY.hint':
+    'カーディナリティの記号を確認してください: ||、|o、o|、}|、|{ など',
+  'MMD-INVALID-ER-ATTRIBUTES': 'ER 図の属性ブロックが不正です',
+  'MMD-INVALID-ER-ATTRIBUTES.hint': '属性の構文を確認してください: EntityName { type attrName }',
+  'MMD-INVALID-STATE-TRANSITION': '状態遷移が不正です',
+  'MMD-INVALID-STATE-TRANSITION.hint': '遷移には --> を使ってください: StateA --> StateB',
+  'MMD-INVALID-TASK-DATA': 'タスクのデータが不正です',
+  'MMD-INVALID-TASK-DATA.hint':
+    'タスクの形式を確認してください: taskName :status, startDate, duration',
+  'MMD-INVALID-GENERIC': 'ジェネリック型が不正です',
+  'MMD-INVALID-GENERIC.hint': 'ジェネリックの構文を確認してください: class ClassName~Type~',
+  'MMD-INVALID-STYLE': 'スタイルの構文が不正です',
+  'MMD-INVALID-STYLE.hint': 'スタイル定義の構文を確認してください',
+  'MMD-INVALID-COMMIT-REF': 'コミットの参照が不正です',
+  'MMD-INVALID-COMMIT-REF.hint': '有効な commit コマンドを使ってください: commit id: "message"',
+  'MMD-INVALID-COMMIT-TAG': 'コミットのタグが不正です',
+  'MMD-INVALID-COMMIT-TAG.hint': '有効なタグを使ってください: commit tag: "v1.0"',
+
+  'MMD-UNEXPECTED-TOKEN': '構文エラー: 予期しない "{token}" があります',
+  'MMD-UNEXPECTED-TOKEN.hint': 'この位置の付近の構文を確認してください',
+  'MMD-LEXICAL-ERROR': '認識できないテキストまたはキーワードです',
+  'MMD-LEXICAL-ERROR.hint':
+    '入力ミス、不正なキーワード、サポートされていない構文がないか確認してください',
+  'MMD-UNKNOWN-DIAGRAM-TYPE': '不明な図の種類です: "{line}"',
+  'MMD-UNKNOWN-DIAGRAM-TYPE.hint': '有効な種類: {types}',
+  'MMD-UNKNOWN-DIAGRAM-TYPE.empty': '（空）',
+  'MMD-UNEXPECTED-CHARACTER': '予期しない文字 "{char}" があります',
+  'MMD-UNEXPECTED-CHARACTER.hint': '入力ミス、引用符の抜け、不正な文字がないか確認してください',
+  'MMD-EXPECTED-TOKEN': '{token} が必要です',
+  'MMD-EXPECTED-TOKEN.hint': '図の構文と構造を確認してください',
+  'MMD-INVALID-SYNTAX': '構文が不正です',
+  'MMD-INVALID-SYNTAX.hint': 'コマンドの構文を確認してください（例: ブランチ名、checkout の対象）',
+  'MMD-PARSE-ERROR.hint': '図の構文に誤りがないか確認してください',
+
+  'MMD-EMPTY': 'Mermaid の図が空です',
+  'MMD-EMPTY.hint': '図の種類（例: flowchart、sequenceDiagram）と内容を追加してください',
+  'MMD-MISSING-DIAGRAM-TYPE': '図の種類の宣言がありません',
+  'MMD-MISSING-DIAGRAM-TYPE.hint':
+    '図の種類から始めてください（例: flowchart、sequenceDiagram、classDiagram）',
+
+  'MMD-UNKNOWN-CONFIG-KEY': "不明な設定キー '{key}' です",
+  'MMD-INVALID-CONFIG-VALUE': "設定キー '{key}' の値 '{value}' が不正です",
+  'MMD-INVALID-CONFIG-VALUE.expected':
+    "設定キー '{key}' の値 '{value}' が不正です。有効な値: {allowed}",
+  'MMD-INVALID-FRONTMATTER': 'フロントマターの YAML が不正です: {error}',
+  'MMD-INVALID-DIRECTIVE': '{type} ディレクティブの JSON が不正です: {error}',
+  'MMD-IGNORED-CONFIG':
+    '{platform} はフロントマターを無視します。図はデフォルトの設定で描画されます',
+  'MMD-IGNORED-CONFIG.directive':
+    '{platform} は %%{{directive}}%% ディレクティブを無視します。図はデフォルトの設定で描画されます',
+
+  'MMD-TYPE-NOT-ALLOWED': '図の種類 "{type}" は許可されていません。許可されている種類: {allowed}',
+  'MMD-TYPE-UNSUPPORTED':
+    '図の種類 "{type}" は {platform} でサポートされていません。サポートされている種類: {supported}',
+  'MMD-TYPE-DISALLOWED': '図の種類 "{type}" は disallowedTypes オプションで禁止されています',
+  'MMD-BETA-TYPE':
+    '図の種類 "{type}" はベータ版の図の種類で、disallowBeta オプションで禁止されています',
+
+  'MMD-INPUT-TOO-LARGE':
+    '図が {length} 文字あり、上限の {max} 文字を超えています。検証していません',
+  'MMD-TOO-MANY-LINES': '図が {actual} 行あり、{limit}（{max}）を {excess} 超えています',
+  'MMD-TEXT-TOO-LARGE': '図が {actual} 文字あり、{limit}（{max}）を {excess} 超えています',
+  'MMD-TOO-MANY-NODES': '図にノードが {actual} 個あり、{limit}（{max}）を {excess} 超えています',
+  'MMD-TOO-MANY-EDGES': '図にエッジが {actual} 本あり、{limit}（{max}）を {excess} 超えています',
+  'MMD-SUBGRAPH-TOO-DEEP':
+    '図のサブグラフの入れ子が {actual} 段あり、{limit}（{max}）を {excess} 超えています',
+  'MMD-TOO-MANY-PARTICIPANTS':
+    '図に参加者が {actual} 人あり、{limit}（{max}）を {excess} 超えています',
+
+  'MMD-UNDEFINED-REFERENCE': "{statement} が参照するノード '{name}' は定義されていません",
+  'MMD-UNUSED-CLASSDEF':
+    'classDef \'{name}\' は使われていません。"class <node> {name}" または "<node>:::{name}" で適用してください',
+  'MMD-LINKSTYLE-OUT-OF-RANGE':
+    'linkStyle のインデックス {index} は範囲外です: 図のリンクは {count} 本です（インデックス 0-{last}）',
+  'MMD-LINKSTYLE-OUT-OF-RANGE.noLinks':
+    'linkStyle のインデックス {index} は範囲外です: 図にリンクがありません',
+  'MMD-UNBALANCED-ACTIVATION':
+    "参加者 '{name}' はアクティブにされていますが、非アクティブにされていません",
+  'MMD-UNBALANCED-ACTIVATION.inactive':
+    "参加者 '{name}' はアクティブでないのに非アクティブにされています",
+  'MMD-UNDECLARED-PARTICIPANT': "参加者 '{name}' は participant または actor で宣言されていません",
+  'MMD-UNKNOWN-NOTE-ACTOR': "ノートが参照する '{name}' は、どのメッセージにも宣言にも現れません",
+
+  'MMD-ACC-TITLE':
+    '図に accTitle も title もありません。スクリーンリーダー向けに accTitle: <短いタイトル> を追加してください',
+  'MMD-ACC-TITLE.empty': '{keyword} が空です',
+  'MMD-ACC-TITLE.placeholder': "{keyword} '{value}' は仮の値のようです",
+  'MMD-ACC-DESCR':
+    '図に accDescr がありません。accDescr: <説明>（複数行なら accDescr { ... }）を追加してください',
+  'MMD-ACC-DESCR.empty': '{keyword} が空です',
+  'MMD-ACC-DESCR.placeholder': "{keyword} '{value}' は仮の値のようです",
+  'MMD-ACC-DESCR.short':
+    'accDescr が {length} 文字で、minDescriptionLength（{min}）より短くなっています',
+
+  'MMD-STYLE-HEADER': "'{actual}' ではなく '{preferred}' を使ってください",
+  'MMD-STYLE-DIRECTION': "上から下への向きには '{actual}' ではなく '{preferred}' を使ってください",
+  'MMD-STYLE-INDENT': 'インデントの {width} 文字の空白が {indent} の倍数になっていません',
+  'MMD-STYLE-INDENT.tabs': 'タブではなく {indent} 文字の空白でインデントしてください',
+  'MMD-STYLE-INDENT.spaces': '空白ではなくタブでインデントしてください',
+  'MMD-STYLE-QUOTED-LABELS':
+    'ラベル \'{label}\' が引用符で囲まれていません。"{label}" としてください',
+  'MMD-STYLE-ARROW':
+    "矢印 '{arrow}' は {family} の図では許可されていません。許可されている矢印: {allowed}",
+
+  'MMD-UNSAFE-URL':
+    "URL スキーム '{scheme}:' は許可されていません。許可されているスキーム: {allowed}",
+  'MMD-CALLBACK':
+    "クリックのコールバック '{callback}' はページの JavaScript を実行します。forbidCallbacks オプションでコールバックは禁止されています",
+  'MMD-UNSAFE-HTML': '図のテキストに HTML の <{tag}> 要素があります',
+  'MMD-UNSAFE-HTML.handler':
+    "図のテキストに HTML のイベントハンドラー属性 '{attribute}' があります",
+  'MMD-LOOSE-SECURITY-LEVEL':
+    "securityLevel 'loose' はクリックのコールバックとサニタイズされない HTML ラベルを有効にします。この上書きを削除してください",
+
+  'MMD-TIMEOUT': 'Mermaid の検証が {timeoutMs} ms でタイムアウトしました',
+  'MMD-WORKER-FAILED': 'Mermaid の検証ワーカーが失敗しました: {error}',
+  rejectedBy: '{detail}（{labels} で不合格）',
+
+  'KTX-EMPTY': '数式ブロックが空です',
+  'KTX-EMPTY.hint': 'LaTeX の式を追加してください（例: E = mc^2）',
+  'KTX-UNDEFINED-CS.hint':
+    'コマンド名の入力ミスを確認するか、通常の文字列には \\text{} を使ってください',
+  'KTX-UNCLOSED-BRACE.hint': 'すべての波括弧 {} が閉じられているか確認してください',
+  'KTX-MISSING-ARGUMENT.hint': '必要な引数を波括弧で囲んで追加してください: \\command{argument}',
+  'KTX-UNEXPECTED-END.hint': '式が完結していません。閉じ括弧や引数の抜けがないか確認してください',
+};
+
+/**
+ * Built-in catalogs by locale
+ */
+export const MESSAGE_CATALOGS: Record<string, MessageCatalog> = {
+  en: EN_MESSAGES,
+  ja: JA_MESSAGES,
+};
+
+/**
+ * Read a catalog file: a JSON object of message templates by key
+ */
+function readMessagesFile(messagesFile: string): MessageCatalog {
+  const catalog: unknown = JSON.parse(readFileSync(resolve(messagesFile), 'utf8'));
+  const entries = catalog && typeof catalog === 'object' ? Object.entries(catalog) : null;
+  if (
+    !entries ||
+    Array.isArray(catalog) ||
+    entries.some(([, value]) => typeof value !== 'string')
+  ) {
+    throw new Error(`Message catalog '${messagesFile}' must be a JSON object of strings`);
+  }
+  return Object.fromEntries(entries) as MessageCatalog;
+}
+
+/**
+ * Get the catalog for a locale, with the entries of a catalog file on top.
+ * A locale without a built-in catalog needs a catalog file; missing English
+ * entries fall back to the built-in ones.
+ */
+export function resolveMessages(locale?: string, messagesFile?: string): MessageCatalog {
+  const name = locale ?? 'en';
+  const builtIn = Object.hasOwn(MESSAGE_CATALOGS, name) ? MESSAGE_CATALOGS[name] : undefined;
+  if (!builtIn && messagesFile === undefined) {
+    throw new Error(
+      `Unknown locale "${name}". Available locales: ${Object.keys(MESSAGE_CATALOGS).join(', ')}`
+    );
+  }
+  return {
+    ...EN_MESSAGES,
+    ...builtIn,
+    ...(messagesFile === undefined ? {} : readMessagesFile(messagesFile)),
+  };
+}
+
+/**
+ * Substitute parameters into a template, keeping braces that name no parameter
+ */
+export function fillTemplate(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Fill in a message template (the key itself when no catalog has it)
+ */
+export function formatMessage(
+  messages: MessageCatalog,
+  key: string,
+  params: MessageParams = {}
+): string {
+  return fillTemplate(messages[key] ?? EN_MESSAGES[key] ?? key, params);
+}
+
+/**
+ * Message of an issue a check finds: the template of its error code, or of a
+ * variant ("MMD-STYLE-INDENT.tabs") for codes with several messages
+ */
+export interface IssueMessage {
+  /** Variant of the code's message */
+  variant?: string;
+  /** Parameters of the message template */
+  params: MessageParams;
+  /** Closest known name, offered as a "did you mean" suggestion */
+  suggestion?: string | null;
+}
+
+/**
+ * Format the message of an issue, followed by its suggestion
+ */
+export function formatIssue(messages: MessageCatalog, code: string, issue: IssueMessage): string {
+  const key = issue.variant ? `${code}.${issue.variant}` : code;
+  const message = formatMessage(messages, key, issue.params);
+  if (!issue.suggestion) {
+    return message;
+  }
+  return formatMessage(messages, 'detail', {
+    message,
+    hint: formatMessage(messages, 'suggestion', { name: issue.suggestion }),
+  });
+}
+
+/**
+ * Format the message of an error code followed by its hint
+ */
+export function formatDetail(
+  messages: MessageCatalog,
+  code: string,
+  params: MessageParams = {}
+): string {
+  return formatMessage(messages, 'detail', {
+    message: formatMessage(messages, code, params),
+    hint: formatMessage(messages, `${code}.hint`, params),
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * Platform profiles: what each Markdown renderer supports
+ *
+ * GitHub, GitLab, Azure DevOps, Docusaurus and Obsidian render different sets
+ * of mermaid diagram types and recognize diagrams and math in different
+ * places. A profile describes one renderer as plain data, and each rule reads
+ * the parts that concern it. Diagram type lists reflect the mermaid version
+ * each platform shipped when the profile was written.
+ */
+
+/**
+ * HTML elements that can hold a diagram or math (marked with a class)
+ */
+export type HtmlContainer = 'pre' | 'div' | 'span' | 'code';
+
+/**
+ * Math delimiters in text: $...$, $$...$$ and $`...`$
+ */
+export type MathDelimiter = 'dollar' | 'doubleDollar' | 'backtickDollar';
+
+/**
+ * What a platform renders
+ */
+export interface PlatformProfile {
+  /** Platform name used in messages */
+  name: string;
+  /** Diagram types the platform renders (detector ids or families); absent when it renders all */
+  diagramTypes?: string[];
+  /** Whether frontmatter and %%{init}%% directives are applied */
+  honorsConfig: boolean;
+  /** Fence languages rendered as mermaid */
+  mermaidFences: string[];
+  /** Languages of "::: lang" containers rendered as mermaid */
+  mermaidContainers: string[];
+  /** HTML elements rendered as mermaid (class="mermaid", or class="language-mermaid" on code) */
+  mermaidHtml: HtmlContainer[];
+  /** Fence languages rendered as math */
+  mathFences: string[];
+  /** HTML elements rendered as math (class="math", or class="language-math" on code) */
+  mathHtml: HtmlContainer[];
+  /** Delimiters of math in text */
+  mathDelimiters: MathDelimiter[];
+}
+
+/**
+ * Profile option: a built-in profile with some fields overridden
+ */
+export interface ProfileConfig extends Partial<PlatformProfile> {
+  /** Built-in profile to start from (default: "default") */
+  extends?: string;
+}
+
+/**
+ * Diagram types every profile with a type list supports
+ */
+const CORE_DIAGRAM_TYPES: string[] = [
+  'flowchart',
+  'sequence',
+  'class',
+  'state',
+  'er',
+  'journey',
+  'gantt',
+  'pie',
+  'requirement',
+  'gitGraph',
+];
+
+/**
+ * Built-in profiles. "default" recognizes everything the rules know about.
+ */
+export const PROFILES: Record<string, PlatformProfile> = {
+  default: {
+    name: 'default',
+    honorsConfig: true,
+    mermaidFences: ['mermaid'],
+    mermaidContainers: [],
+    mermaidHtml: ['pre', 'div', 'code'],
+    mathFences: ['math', 'latex', 'tex', 'katex'],
+    mathHtml: ['span', 'div', 'code'],
+    mathDelimiters: ['dollar', 'doubleDollar'],
+  },
+  github: {
+    name: 'GitHub',
+    diagramTypes: [
+      ...CORE_DIAGRAM_TYPES,
+      'quadrantChart',
+      'c4',
+      'mindmap',
+      'timeline',
+      'sankey',
+      'xychart',
+      'block',
+      'packet',
+      'kanban',
+      'architecture',
+    ],
+    honorsConfig: true,
+    mermaidFences: ['mermaid'],
+    mermaidContainers: [],
+    // GitHub strips class attributes from HTML
+    mermaidHtml: [],
+    mathFences: ['math'],
+    mathHtml: [],
+    mathDelimiters: ['dollar', 'doubleDollar', 'backtickDollar'],
+  },
+  gitlab: {
+    name: 'GitLab',
+    diagramTypes: [
+      ...CORE_DIAGRAM_TYPES,
+      'quadrantChart',
+      'c4',
+      'mindmap',
+      'timeline',
+      'sankey',
+      'xychart',
+    ],
+    honorsConfig: true,
+    mermaidFences: ['mermaid'],
+    mermaidContainers: [],
+    mermaidHtml: [],
+    mathFences: ['math'],
+    mathHtml: [],
+    mathDelimiters: ['dollar', 'doubleDollar', 'backtickDollar'],
+  },
+  'azure-devops': {
+    name: 'Azure DevOps',
+    diagramTypes: [...CORE_DIAGRAM_TYPES, 'timeline'],
+    honorsConfig: false,
+    // Wiki pages write diagrams as ::: mermaid ... ::: containers
+    mermaidFences: [],
+    mermaidContainers: ['mermaid'],
+    mermaidHtml: [],
+    mathFences: [],
+    mathHtml: [],
+    mathDelimiters: ['dollar', 'doubleDollar'],
+  },
+  docusaurus: {
+    name: 'Docusaurus',
+    honorsConfig: true,
+    mermaidFences: ['mermaid'],
+    mermaidContainers: [],
+    mermaidHtml: [],
+    mathFences: ['math'],
+    mathHtml: [],
+    mathDelimiters: ['dollar', 'doubleDollar'],
+  },
+  obsidian: {
+    name: 'Obsidian',
+    honorsConfig: true,
+    mermaidFences: ['mermaid'],
+    mermaidContainers: [],
+    mermaidHtml: [],
+    mathFences: [],
+    mathHtml: [],
+    mathDelimiters: ['dollar', 'doubleDollar'],
+  },
+};
+
+/**
+ * Get the profile a profile option selects, with its overrides applied.
+ * Throws for unknown profile names.
+ */
+export function resolveProfile(profile: string | ProfileConfig | undefined): PlatformProfile {
+  const { extends: base = 'default', ...overrides } =
+    typeof profile === 'string' ? { extends: profile } : (profile ?? {});
+  const resolved = PROFILES[base];
+  if (!resolved) {
+    throw new Error(
+      `Unknown profile "${base}". Available profiles: ${Object.keys(PROFILES).join(', ')}`
+    );
+  }
+  return { ...resolved, ...overrides };
+}
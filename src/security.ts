@@ -0,0 +1,259 @@
+/**
+ * Security checks for diagram interactions and HTML
+ *
+ * Mermaid sanitizes links and labels while parsing (and drops callbacks unless
+ * securityLevel is "loose"), so its databases no longer hold what the author
+ * wrote. The checks here read the statements themselves: click/link/callback
+ * statements of flowchart, class and sequence diagrams, securityLevel in
+ * frontmatter and init directives, and HTML anywhere in the diagram. Offsets
+ * in the returned issues are relative to the code passed in.
+ */
+
+import type { IssueMessage } from './messages.js';
+
+/**
+ * Security check names, usable in suppression directives
+ */
+export type SecurityCheck = 'callback' | 'url' | 'securityLevel' | 'html';
+
+/**
+ * Security problem found in a diagram
+ */
+export interface SecurityIssue extends IssueMessage {
+  check: SecurityCheck;
+  /** Offset of the offending text in the diagram code */
+  offset: number;
+  length: number;
+}
+
+/**
+ * What the checks allow
+ */
+export interface SecurityPolicy {
+  /** URL schemes links may use; relative URLs are always allowed */
+  allowedSchemes: readonly string[];
+  /** Report every click callback */
+  forbidCallbacks: boolean;
+}
+
+/**
+ * URL schemes allowed when allowedSchemes is not configured
+ */
+export const DEFAULT_ALLOWED_SCHEMES: readonly string[] = ['http', 'https', 'mailto'];
+
+/**
+ * Statements that attach a URL or callback to a node; group 1 is the URL or
+ * the callback name
+ */
+type InteractionKind = 'url' | 'urls' | 'callback';
+
+const CLICK_URL_PATTERN = /^\s*click\s+\S+\s+(?:href\s+)?"([^"]*)"/d;
+const CLICK_CALL_PATTERN = /^\s*click\s+\S+\s+call\s+([^\s(]+)/d;
+const CLICK_CALLBACK_PATTERN = /^\s*click\s+\S+\s+(?!href\b|call\b)([^\s"]+)/d;
+const CLASS_LINK_PATTERN = /^\s*link\s+\S+\s+"([^"]*)"/d;
+const CLASS_CALLBACK_PATTERN = /^\s*callback\s+\S+\s+"([^"]*)"/d;
+const SEQUENCE_LINK_PATTERN = /^\s*link\s+[^:\n]+:[^@\n]*@\s*(.*?)\s*$/d;
+const SEQUENCE_LINKS_PATTERN = /^\s*links\s+[^:\n]+:\s*(\{.*\})\s*$/d;
+
+const CLICK_PATTERNS: [InteractionKind, RegExp][] = [
+  ['url', CLICK_URL_PATTERN],
+  ['callback', CLICK_CALL_PATTERN],
+  ['callback', CLICK_CALLBACK_PATTERN],
+];
+
+/**
+ * Interaction statements of each diagram family
+ */
+const INTERACTION_PATTERNS: Record<string, [InteractionKind, RegExp][]> = {
+  flowchart: CLICK_PATTERNS,
+  class: [...CLICK_PATTERNS, ['url', CLASS_LINK_PATTERN], ['callback', CLASS_CALLBACK_PATTERN]],
+  sequence: [
+    ['url', SEQUENCE_LINK_PATTERN],
+    ['urls', SEQUENCE_LINKS_PATTERN],
+  ],
+};
+
+/**
+ * securityLevel: loose in frontmatter or an init directive (JSON or YAML)
+ */
+const LOOSE_SECURITY_LEVEL_PATTERN = /["']?securityLevel["']?\s*:\s*["']?(loose)\b/dg;
+
+/**
+ * Mermaid comments (but not %%{...}%% directives)
+ */
+const COMMENT_LINE_PATTERN = /^\s*%%(?!{)/;
+
+/**
+ * HTML tags and the parts of them that run scripts
+ */
+const HTML_TAG_PATTERN = /<\s*([a-z][\w-]*)([^<>]*)>?/dgi;
+const EVENT_HANDLER_PATTERN = /\b(on[a-z]+)\s*=/di;
+const URL_ATTRIBUTE_PATTERN =
+  /\b(?:href|src|xlink:href|action|formaction)\s*=\s*["']?([^"'\s>]+)/di;
+const DANGEROUS_TAGS: readonly string[] = [
+  'applet',
+  'base',
+  'embed',
+  'form',
+  'frame',
+  'frameset',
+  'iframe',
+  'link',
+  'meta',
+  'object',
+  'script',
+  'style',
+];
+
+/**
+ * Get the scheme of a URL, ignoring the whitespace and control characters
+ * browsers skip (e.g. "java\tscript:"); null for relative URLs
+ */
+function getUrlScheme(url: string): string | null {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: browsers ignore control characters in URLs
+  const normalized = url.replace(/[\s\u0000-\u001f]/g, '').toLowerCase();
+  return normalized.match(/^([a-z][a-z0-9+.-]*):/)?.[1] ?? null;
+}
+
+/**
+ * Report a URL whose scheme is not allowed
+ */
+function checkUrl(url: string, offset: number, policy: SecurityPolicy): SecurityIssue[] {
+  const scheme = getUrlScheme(url);
+  if (scheme === null || policy.allowedSchemes.includes(scheme)) {
+    return [];
+  }
+  return [
+    {
+      check: 'url',
+      offset,
+      length: url.length,
+      params: { scheme, allowed: policy.allowedSchemes.join(', ') },
+    },
+  ];
+}
+
+/**
+ * Check the URLs of a sequence diagram "links" statement ({"label": "url", ...})
+ */
+function checkUrlMap(json: string, offset: number, policy: SecurityPolicy): SecurityIssue[] {
+  let links: unknown;
+  try {
+    links = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  return Object.values(links as Record<string, unknown>)
+    .filter((url): url is string => typeof url === 'string')
+    .flatMap((url) => checkUrl(url, offset + json.indexOf(url), policy));
+}
+
+/**
+ * Check one interaction statement
+ */
+function checkInteraction(
+  kind: InteractionKind,
+  value: string,
+  offset: number,
+  policy: SecurityPolicy
+): SecurityIssue[] {
+  if (kind === 'url') {
+    return checkUrl(value, offset, policy);
+  }
+  if (kind === 'urls') {
+    return checkUrlMap(value, offset, policy);
+  }
+  if (!policy.forbidCallbacks) {
+    return [];
+  }
+  return [
+    {
+      check: 'callback',
+      offset,
+      length: value.length,
+      params: { callback: value },
+    },
+  ];
+}
+
+/**
+ * Check the HTML tags in a line
+ */
+function checkHtml(line: string, lineOffset: number, policy: SecurityPolicy): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+
+  for (const match of line.matchAll(HTML_TAG_PATTERN)) {
+    const tag = match[1].toLowerCase();
+    const offset = lineOffset + match.index;
+    const attributes = match[2];
+    const attributesOffset = lineOffset + (match.indices?.[2]?.[0] ?? match.index);
+    const handler = attributes.match(EVENT_HANDLER_PATTERN);
+    const url = attributes.match(URL_ATTRIBUTE_PATTERN);
+
+    if (DANGEROUS_TAGS.includes(tag)) {
+      issues.push({
+        check: 'html',
+        offset,
+        length: match[0].length,
+        params: { tag },
+      });
+    } else if (handler) {
+      issues.push({
+        check: 'html',
+        offset: attributesOffset + (handler.indices?.[1]?.[0] ?? 0),
+        length: handler[1].length,
+        variant: 'handler',
+        params: { attribute: handler[1] },
+      });
+    }
+    if (url) {
+      issues.push(...checkUrl(url[1], attributesOffset + (url.indices?.[1]?.[0] ?? 0), policy));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Report securityLevel overrides to "loose", which enables callbacks and unsanitized HTML
+ */
+function checkSecurityLevel(code: string): SecurityIssue[] {
+  return [...code.matchAll(LOOSE_SECURITY_LEVEL_PATTERN)].map((match) => {
+    const [start, end] = match.indices?.[1] ?? [match.index, match.index];
+    return {
+      check: 'securityLevel',
+      offset: start,
+      length: end - start,
+      params: {},
+    };
+  });
+}
+
+/**
+ * Find interactions, HTML and config overrides that can run scripts, in source order
+ */
+export function findSecurityIssues(
+  code: string,
+  family: string,
+  policy: SecurityPolicy
+): SecurityIssue[] {
+  const interactions = INTERACTION_PATTERNS[family] ?? [];
+  const issues: SecurityIssue[] = checkSecurityLevel(code);
+  let lineOffset = 0;
+
+  for (const line of code.split('\n')) {
+    if (!COMMENT_LINE_PATTERN.test(line)) {
+      for (const [kind, pattern] of interactions) {
+        const match = line.match(pattern);
+        const [start] = match?.indices?.[1] ?? [0];
+        if (match) {
+          issues.push(...checkInteraction(kind, match[1], lineOffset + start, policy));
+          break;
+        }
+      }
+      issues.push(...checkHtml(line, lineOffset, policy));
+    }
+    lineOffset += line.length + 1;
+  }
+
+  return issues.sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,482 @@
+/**
+ * Semantic checks for diagrams that parse but are wrong
+ *
+ * The checks read the database mermaid builds while parsing a diagram
+ * (flowchart nodes and links, sequence actors and messages) and compare it
+ * with the statements that refer to it. Issue offsets index into the
+ * preprocessed code mermaid parsed.
+ */
+
+import type { IssueMessage } from './messages.js';
+import { suggestClosest } from './suggest.js';
+
+/**
+ * Semantic check names, usable in the rule's `checks` option and in
+ * suppression directives
+ */
+export type SemanticCheck =
+  | 'undefinedReference'
+  | 'unusedClassDef'
+  | 'linkStyleIndex'
+  | 'activationBalance'
+  | 'undeclaredParticipant'
+  | 'noteActor';
+
+/**
+ * Whether each semantic check runs when not configured
+ * (flowchart checks are on, sequence checks are opt-in)
+ */
+export const SEMANTIC_CHECK_DEFAULTS: Record<SemanticCheck, boolean> = {
+  undefinedReference: true,
+  unusedClassDef: true,
+  linkStyleIndex: true,
+  activationBalance: false,
+  undeclaredParticipant: false,
+  noteActor: false,
+};
+
+/**
+ * Semantic problem found in a diagram
+ */
+export interface SemanticIssue extends IssueMessage {
+  check: SemanticCheck;
+  /** Offset of the offending text in the diagram code */
+  offset: number;
+  length: number;
+}
+
+/**
+ * The parts of mermaid's FlowDB used by the flowchart checks
+ */
+export interface FlowchartDb {
+  getVertices(): Map<string, { classes: string[] }>;
+  getEdges(): { classes?: string[] }[];
+  getSubGraphs(): { id: string; classes: string[] }[];
+}
+
+/**
+ * Flowchart statements that refer to nodes, classes or links by name
+ */
+const STYLE_PATTERN = /^\s*(style)\s+([^\s;]+)/d;
+const CLASS_PATTERN = /^\s*(class)\s+([^\s;]+)\s+([^\s;]+)/d;
+const CLICK_PATTERN = /^\s*(click)\s+([^\s;]+)/d;
+const LINK_STYLE_PATTERN = /^\s*linkStyle\s+(default|\d+(?:\s*,\s*\d+)*)/d;
+const CLASS_DEF_PATTERN = /^\s*classDef\s+([^\s;]+)/d;
+
+/**
+ * Statements removed before parsing, so the database only holds nodes that
+ * are actually defined ("style" creates the nodes it names) and links that
+ * exist ("linkStyle" with a bad index makes mermaid throw)
+ */
+const REFERENCE_STATEMENT_PATTERN = /^[ \t]*(?:style|class|click|linkStyle)\b.*$/gm;
+
+/**
+ * A comma-separated name list with the offset of each name
+ */
+interface NamedSpan {
+  name: string;
+  offset: number;
+}
+
+/**
+ * Split a comma-separated list starting at an offset into its names
+ */
+function splitNames(list: string, offset: number): NamedSpan[] {
+  const names: NamedSpan[] = [];
+  let position = offset;
+  for (const name of list.split(',')) {
+    const leading = name.length - name.trimStart().length;
+    if (name.trim()) {
+      names.push({ name: name.trim(), offset: position + leading });
+    }
+    position += name.length + 1;
+  }
+  return names;
+}
+
+/**
+ * Get the names in a capture group of a line match
+ */
+function groupNames(match: RegExpMatchArray, group: number, lineOffset: number): NamedSpan[] {
+  const indices = match.indices?.[group];
+  return indices ? splitNames(match[group], lineOffset + indices[0]) : [];
+}
+
+/**
+ * Remove statements that refer to nodes and links, keeping line numbers intact
+ */
+export function stripFlowchartReferences(code: string): string {
+  return code.replace(REFERENCE_STATEMENT_PATTERN, '');
+}
+
+/**
+ * Names referred to by a flowchart's statements
+ */
+interface FlowchartStatements {
+  /** Node ids named by style, class and click statements */
+  references: (NamedSpan & { statement: string })[];
+  /** Class names defined by classDef */
+  classDefs: NamedSpan[];
+  /** Class names applied by class statements */
+  appliedClasses: string[];
+  /** Link indices named by linkStyle */
+  linkIndices: NamedSpan[];
+}
+
+/**
+ * Collect the names flowchart statements refer to, line by line
+ */
+function collectFlowchartStatements(code: string): FlowchartStatements {
+  const statements: FlowchartStatements = {
+    references: [],
+    classDefs: [],
+    appliedClasses: [],
+    linkIndices: [],
+  };
+
+  let lineOffset = 0;
+  for (const line of code.split('\n')) {
+    const reference =
+      line.match(STYLE_PATTERN) ?? line.match(CLASS_PATTERN) ?? line.match(CLICK_PATTERN);
+    if (reference) {
+      for (const span of groupNames(reference, 2, lineOffset)) {
+        statements.references.push({ ...span, statement: reference[1] });
+      }
+      if (reference[3]) {
+        statements.appliedClasses.push(reference[3]);
+      }
+    }
+
+    const linkStyle = line.match(LINK_STYLE_PATTERN);
+    if (linkStyle && linkStyle[1] !== 'default') {
+      statements.linkIndices.push(...groupNames(linkStyle, 1, lineOffset));
+    }
+
+    const classDef = line.match(CLASS_DEF_PATTERN);
+    if (classDef) {
+      statements.classDefs.push(...groupNames(classDef, 1, lineOffset));
+    }
+
+    lineOffset += line.length + 1;
+  }
+
+  return statements;
+}
+
+/**
+ * Report style, class and click statements naming nodes that do not exist
+ */
+function findUndefinedReferences(
+  statements: FlowchartStatements,
+  db: FlowchartDb
+): SemanticIssue[] {
+  const defined = [...db.getVertices().keys(), ...db.getSubGraphs().map((subGraph) => subGraph.id)];
+
+  return statements.references
+    .filter(({ name }) => !defined.includes(name))
+    .map(({ name, offset, statement }) => ({
+      check: 'undefinedReference',
+      offset,
+      length: name.length,
+      params: { name, statement },
+      suggestion: suggestClosest(name, defined),
+    }));
+}
+
+/**
+ * Report classDefs applied to no node, subgraph or link ("default" applies to all)
+ */
+function findUnusedClassDefs(statements: FlowchartStatements, db: FlowchartDb): SemanticIssue[] {
+  const used = new Set<string>(['default', ...statements.appliedClasses]);
+  for (const item of [...db.getVertices().values(), ...db.getSubGraphs(), ...db.getEdges()]) {
+    for (const className of item.classes ?? []) {
+      used.add(className);
+    }
+  }
+
+  return statements.classDefs
+    .filter(({ name }) => !used.has(name))
+    .map(({ name, offset }) => ({
+      check: 'unusedClassDef',
+      offset,
+      length: name.length,
+      params: { name },
+    }));
+}
+
+/**
+ * Report linkStyle indices past the last link
+ */
+function findLinkStyleIndexIssues(
+  statements: FlowchartStatements,
+  db: FlowchartDb
+): SemanticIssue[] {
+  const count = db.getEdges().length;
+
+  return statements.linkIndices
+    .filter(({ name }) => Number(name) >= count)
+    .map(({ name, offset }) => ({
+      check: 'linkStyleIndex',
+      offset,
+      length: name.length,
+      variant: count > 0 ? undefined : 'noLinks',
+      params: { index: name, count, last: count - 1 },
+    }));
+}
+
+/**
+ * Find references to undefined nodes, unused classDefs and out-of-range linkStyle indices.
+ * The database must come from parsing the code with stripFlowchartReferences applied.
+ */
+export function findFlowchartIssues(
+  code: string,
+  db: FlowchartDb,
+  isEnabled: (check: SemanticCheck) => boolean
+): SemanticIssue[] {
+  const statements = collectFlowchartStatements(code);
+  const checks: [SemanticCheck, typeof findUndefinedReferences][] = [
+    ['undefinedReference', findUndefinedReferences],
+    ['unusedClassDef', findUnusedClassDefs],
+    ['linkStyleIndex', findLinkStyleIndexIssues],
+  ];
+
+  return checks
+    .filter(([check]) => isEnabled(check))
+    .flatMap(([, find]) => find(statements, db))
+    .sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * The parts of mermaid's SequenceDB used by the sequence checks
+ */
+export interface SequenceDb {
+  getActors(): Map<string, unknown>;
+  getMessages(): { type?: number; from?: string; to?: string }[];
+}
+
+/**
+ * SequenceDB message types that are not messages between actors
+ */
+const SEQUENCE_NOTE = 2;
+const SEQUENCE_ACTIVE_START = 17;
+const SEQUENCE_ACTIVE_END = 18;
+
+/**
+ * Sequence statements that name actors
+ */
+const PARTICIPANT_PATTERN =
+  /^\s*(?:create\s+)?(?:participant|actor)\s+(.+?)(?:@\{.*|\s+as\s.*)?\s*$/d;
+export const MESSAGE_PATTERN: RegExp =
+  /^\s*(.+?)\s*(<<-{1,2}>>|-{1,2}(?:>>|>|x|\)))\s*([+-]?)\s*([^:]+?)\s*:/d;
+const ACTIVATION_PATTERN = /^\s*(activate|deactivate)\s+(.+?)\s*$/d;
+const NOTE_PATTERN = /^\s*note\s+(?:over|left of|right of)\s+([^:]+?)\s*:/di;
+
+/**
+ * Activation statements and "+"/"-" arrow suffixes, removed before parsing
+ * because mermaid throws on deactivating an inactive participant
+ */
+const ACTIVATION_STATEMENT_PATTERN = /^[ \t]*(?:activate|deactivate)\b.*$/gm;
+const ACTIVATION_SUFFIX_PATTERN = /^([^:\n]*?(?:<<-{1,2}>>|-{1,2}(?:>>|>|x|\))))\s*[+-]/gm;
+
+/**
+ * Change in a participant's activation at a point in the diagram
+ */
+interface ActivationEvent extends NamedSpan {
+  delta: 1 | -1;
+}
+
+/**
+ * Names referred to by a sequence diagram's statements
+ */
+interface SequenceStatements {
+  /** Participants declared with participant/actor */
+  declarations: NamedSpan[];
+  /** Actors named as message senders and receivers */
+  messageActors: NamedSpan[];
+  /** Actors named by notes */
+  noteActors: NamedSpan[];
+  activations: ActivationEvent[];
+}
+
+/**
+ * Remove activations, keeping line numbers intact
+ */
+export function stripSequenceActivations(code: string): string {
+  return code.replace(ACTIVATION_STATEMENT_PATTERN, '').replace(ACTIVATION_SUFFIX_PATTERN, '$1');
+}
+
+/**
+ * Get a single name from a capture group of a line match
+ */
+function groupName(match: RegExpMatchArray, group: number, lineOffset: number): NamedSpan {
+  const [start] = match.indices?.[group] ?? [0];
+  return { name: match[group], offset: lineOffset + start };
+}
+
+/**
+ * Record the actors and activations of a message line
+ */
+function addMessage(statements: SequenceStatements, message: NamedSpan[], suffix: string): void {
+  const [from, to] = message;
+  statements.messageActors.push(from, to);
+  if (suffix === '+') {
+    statements.activations.push({ ...to, delta: 1 });
+  } else if (suffix === '-') {
+    statements.activations.push({ ...from, delta: -1 });
+  }
+}
+
+/**
+ * Collect the actors and activations sequence statements refer to, line by line
+ */
+function collectSequenceStatements(code: string): SequenceStatements {
+  const statements: SequenceStatements = {
+    declarations: [],
+    messageActors: [],
+    noteActors: [],
+    activations: [],
+  };
+
+  let lineOffset = 0;
+  for (const line of code.split('\n')) {
+    const declaration = line.match(PARTICIPANT_PATTERN);
+    const activation = line.match(ACTIVATION_PATTERN);
+    const note = line.match(NOTE_PATTERN);
+    const message = line.match(MESSAGE_PATTERN);
+
+    if (declaration) {
+      statements.declarations.push(groupName(declaration, 1, lineOffset));
+    } else if (activation) {
+      const delta = activation[1] === 'activate' ? 1 : -1;
+      statements.activations.push({ ...groupName(activation, 2, lineOffset), delta });
+    } else if (note) {
+      statements.noteActors.push(...groupNames(note, 1, lineOffset));
+    } else if (message) {
+      const actors = [groupName(message, 1, lineOffset), groupName(message, 4, lineOffset)];
+      addMessage(statements, actors, message[3]);
+    }
+
+    lineOffset += line.length + 1;
+  }
+
+  return statements;
+}
+
+/**
+ * Report deactivations of inactive participants and activations never closed
+ */
+function findActivationIssues(statements: SequenceStatements): SemanticIssue[] {
+  const issues: SemanticIssue[] = [];
+  const open = new Map<string, NamedSpan[]>();
+
+  for (const event of statements.activations) {
+    const stack = open.get(event.name) ?? [];
+    if (event.delta === 1) {
+      open.set(event.name, [...stack, event]);
+    } else if (stack.length === 0) {
+      issues.push({
+        check: 'activationBalance',
+        offset: event.offset,
+        length: event.name.length,
+        variant: 'inactive',
+        params: { name: event.name },
+      });
+    } else {
+      open.set(event.name, stack.slice(0, -1));
+    }
+  }
+
+  for (const [name, stack] of open) {
+    for (const event of stack) {
+      issues.push({
+        check: 'activationBalance',
+        offset: event.offset,
+        length: name.length,
+        params: { name },
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Report actors used without a participant/actor declaration. Applies when the
+ * diagram declares participants up front, or always with requireDeclaredParticipants.
+ */
+function findUndeclaredParticipants(
+  statements: SequenceStatements,
+  db: SequenceDb,
+  requireDeclared: boolean
+): SemanticIssue[] {
+  const declared = statements.declarations.map(({ name }) => name);
+  if (declared.length === 0 && !requireDeclared) {
+    return [];
+  }
+
+  const uses = [...statements.messageActors, ...statements.noteActors].sort(
+    (a, b) => a.offset - b.offset
+  );
+  return [...db.getActors().keys()]
+    .filter((actor) => !declared.includes(actor))
+    .flatMap((actor) => uses.find(({ name }) => name === actor) ?? [])
+    .map(({ name, offset }) => ({
+      check: 'undeclaredParticipant',
+      offset,
+      length: name.length,
+      params: { name },
+      suggestion: suggestClosest(name, declared),
+    }));
+}
+
+/**
+ * Report notes over actors that take part in no message and have no declaration
+ */
+function findNoteOnlyActors(statements: SequenceStatements, db: SequenceDb): SemanticIssue[] {
+  const nonMessageTypes = [SEQUENCE_NOTE, SEQUENCE_ACTIVE_START, SEQUENCE_ACTIVE_END];
+  const known = new Set(statements.declarations.map(({ name }) => name));
+  for (const message of db.getMessages()) {
+    if (message.type !== undefined && !nonMessageTypes.includes(message.type)) {
+      for (const actor of [message.from, message.to]) {
+        if (actor) {
+          known.add(actor);
+        }
+      }
+    }
+  }
+
+  return statements.noteActors
+    .filter(({ name }) => !known.has(name))
+    .map(({ name, offset }) => ({
+      check: 'noteActor',
+      offset,
+      length: name.length,
+      params: { name },
+      suggestion: suggestClosest(name, [...known]),
+    }));
+}
+
+/**
+ * Find unbalanced activations, undeclared participants and notes over unknown actors.
+ * The database must come from parsing the code with stripSequenceActivations applied.
+ */
+export function findSequenceIssues(
+  code: string,
+  db: SequenceDb,
+  isEnabled: (check: SemanticCheck) => boolean,
+  requireDeclaredParticipants: boolean
+): SemanticIssue[] {
+  const statements = collectSequenceStatements(code);
+  const issues: SemanticIssue[] = [];
+
+  if (isEnabled('activationBalance')) {
+    issues.push(...findActivationIssues(statements));
+  }
+  if (isEnabled('undeclaredParticipant') || requireDeclaredParticipants) {
+    issues.push(...findUndeclaredParticipants(statements, db, requireDeclaredParticipants));
+  }
+  if (isEnabled('noteActor')) {
+    issues.push(...findNoteOnlyActors(statements, db));
+  }
+
+  return issues.sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,131 @@
+/**
+ * Source mapping from extracted diagram/math code back to the Markdown file
+ *
+ * Every character of the validated code keeps the position it came from, so
+ * trimming, HTML entity decoding and mermaid's own preprocessing can be undone
+ * when an error is reported.
+ */
+
+/**
+ * 1-based line and column in the Markdown file
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Code together with the Markdown position of each of its characters
+ */
+export interface MappedCode {
+  code: string;
+  /** Position of each character of code, plus one entry for the end of the code */
+  positions: SourcePosition[];
+}
+
+/**
+ * Map code that starts at the beginning of a Markdown line.
+ * Columns are located by finding each code line in the matching Markdown line,
+ * which accounts for list indentation and blockquote markers.
+ */
+export function mapSource(code: string, startLine: number, lines: string[]): MappedCode {
+  const positions: SourcePosition[] = [];
+  const codeLines = code.split('\n');
+
+  for (const [index, codeLine] of codeLines.entries()) {
+    const line = startLine + index;
+    const sourceLine = lines[line - 1] ?? '';
+    const start = Math.max(0, sourceLine.indexOf(codeLine));
+    // One position per character, plus one for the newline (or end of code)
+    for (let i = 0; i <= codeLine.length; i++) {
+      positions.push({ line, column: start + i + 1 });
+    }
+  }
+
+  return { code, positions };
+}
+
+/**
+ * Get the Markdown position of a code offset
+ */
+export function positionAt(mapped: MappedCode, offset: number): SourcePosition {
+  const index = Math.min(Math.max(0, offset), mapped.positions.length - 1);
+  return mapped.positions[index];
+}
+
+/**
+ * Get the code offset of a 1-based line and column
+ */
+export function offsetAt(code: string, line: number, column: number): number {
+  let offset = 0;
+  for (let i = 1; i < line; i++) {
+    const newline = code.indexOf('\n', offset);
+    if (newline === -1) {
+      return code.length;
+    }
+    offset = newline + 1;
+  }
+  return Math.min(offset + column - 1, code.length);
+}
+
+/**
+ * Take a substring of mapped code, keeping positions aligned
+ */
+export function sliceMapped<T extends MappedCode>(mapped: T, start: number, end?: number): T {
+  const stop = end ?? mapped.code.length;
+  return {
+    ...mapped,
+    code: mapped.code.substring(start, stop),
+    // Keep the position just past the slice as the end entry
+    positions: mapped.positions.slice(start, stop + 1),
+  };
+}
+
+/**
+ * Trim whitespace from mapped code, keeping positions aligned
+ */
+export function trimMapped<T extends MappedCode>(mapped: T): T {
+  const start = mapped.code.length - mapped.code.trimStart().length;
+  const end = mapped.code.trimEnd().length;
+  return sliceMapped(mapped, Math.min(start, end), end);
+}
+
+/**
+ * Replace every match of a global pattern, keeping positions aligned.
+ * Replacement characters take the positions of the characters they replace.
+ */
+export function replaceMapped<T extends MappedCode>(
+  mapped: T,
+  pattern: RegExp,
+  replacement: string | ((match: string) => string)
+): T {
+  let code = '';
+  const positions: SourcePosition[] = [];
+  let last = 0;
+
+  for (const match of mapped.code.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const text = typeof replacement === 'string' ? replacement : replacement(match[0]);
+
+    code += mapped.code.substring(last, start) + text;
+    positions.push(...mapped.positions.slice(last, start));
+    for (let i = 0; i < text.length; i++) {
+      positions.push(mapped.positions[start + Math.min(i, Math.max(0, match[0].length - 1))]);
+    }
+    last = start + match[0].length;
+  }
+
+  code += mapped.code.substring(last);
+  positions.push(...mapped.positions.slice(last));
+  return { ...mapped, code, positions };
+}
+
+/**
+ * Get the column range covering a span of code, limited to the line it starts on
+ */
+export function rangeAt(mapped: MappedCode, offset: number, length: number): [number, number] {
+  const start = positionAt(mapped, offset);
+  const end = positionAt(mapped, offset + Math.max(1, length) - 1);
+  const sameLine = end.line === start.line && end.column >= start.column;
+  return [start.column, sameLine ? end.column - start.column + 1 : 1];
+}
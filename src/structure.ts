@@ -0,0 +1,265 @@
+/**
+ * Offline structural checks for basic mode
+ *
+ * Basic mode never loads mermaid, so instead of parsing it checks the
+ * structure most syntax errors break: flowchart node shapes and quotes that
+ * are not closed on their line, and blocks that are not closed with `end`
+ * or `}`. Issues carry the error codes (and message parameters) full mode
+ * reports for the same mistakes, so both modes describe them alike.
+ */
+
+import type { MessageParams } from './messages.js';
+
+/**
+ * Structural problem found in a diagram
+ */
+export interface StructureIssue {
+  code: string;
+  /** Offset of the offending text in the diagram code */
+  offset: number;
+  length: number;
+  /** Parameters of the code's message template */
+  params?: MessageParams;
+}
+
+/**
+ * Flowchart shape openers, longest first, with the code reported when the
+ * shape is not closed
+ */
+const SHAPE_CODES: [string, string][] = [
+  ['(((', 'MMD-UNCLOSED-DOUBLE-CIRCLE'],
+  ['[[', 'MMD-UNCLOSED-SUBROUTINE'],
+  ['([', 'MMD-UNCLOSED-STADIUM'],
+  ['[(', 'MMD-UNCLOSED-CYLINDER'],
+  ['[/', 'MMD-UNCLOSED-TRAPEZOID'],
+  ['[\\', 'MMD-UNCLOSED-INV-TRAPEZOID'],
+  ['>', 'MMD-UNCLOSED-ASYMMETRIC'],
+  ['[', 'MMD-UNCLOSED-BRACKET'],
+  ['(', 'MMD-UNCLOSED-PAREN'],
+  ['{', 'MMD-UNCLOSED-BRACE'],
+];
+
+/**
+ * Openers each closing character matches (">" opens an asymmetric shape, A>text])
+ */
+const CLOSER_OPENERS: Record<string, string> = {
+  ']': '[>',
+  ')': '(',
+  '}': '{',
+};
+
+/**
+ * Keywords of blocks closed by a line holding `end`, by diagram family
+ */
+const END_BLOCK_KEYWORDS: Record<string, readonly string[]> = {
+  flowchart: ['subgraph'],
+  sequence: ['loop', 'alt', 'opt', 'par', 'critical', 'break', 'rect', 'box'],
+};
+
+/**
+ * Diagram families whose composite blocks are written `state X {` ... `}`
+ */
+const BRACE_BLOCK_FAMILIES: readonly string[] = ['state'];
+
+/**
+ * Accessibility statements, whose text may hold any character
+ * (accTitle: ..., accDescr: ... and multi-line accDescr { ... })
+ */
+const ACCESSIBILITY_PATTERN = /^[ \t]*acc(?:Title|Descr)[ \t]*(?::.*$|\{[^}]*\})/gm;
+
+const END_PATTERN = /^\s*(end)\s*;?\s*$/d;
+const BRACE_OPEN_PATTERN = /(\{)\s*$/d;
+const BRACE_CLOSE_PATTERN = /^\s*(\})\s*$/d;
+
+/**
+ * Report a character that does not belong where it is
+ */
+function unexpectedCharacter(code: string, offset: number): StructureIssue {
+  return {
+    code: 'MMD-UNEXPECTED-CHARACTER',
+    offset,
+    length: 1,
+    params: { char: code[offset] },
+  };
+}
+
+/**
+ * Report the shape opened at an offset as not closed
+ */
+function unclosedShape(code: string, offset: number): StructureIssue {
+  const [opener, errorCode] = SHAPE_CODES.find(([prefix]) => code.startsWith(prefix, offset)) ?? [
+    '',
+    'MMD-UNCLOSED-BRACKET',
+  ];
+  return { code: errorCode, offset, length: Math.max(1, opener.length) };
+}
+
+/**
+ * Find the end of a quoted string starting at an offset: the closing quote
+ * on the same line, or for markdown strings ("`...`") on any line.
+ * Returns -1 when the string is not closed.
+ */
+function findStringEnd(code: string, offset: number): number {
+  if (code[offset + 1] === '`') {
+    const end = code.indexOf('`"', offset + 2);
+    return end === -1 ? -1 : end + 1;
+  }
+  const end = code.indexOf('"', offset + 1);
+  const lineEnd = code.indexOf('\n', offset);
+  return end === -1 || (lineEnd !== -1 && end > lineEnd) ? -1 : end;
+}
+
+/**
+ * Skip text that may hold any character: a quoted string or an edge label
+ * (A -->|text| B). Returns the offset of its last character, the offset
+ * itself for other characters, or -1 for a string that is not closed.
+ */
+function skipText(code: string, offset: number): number {
+  if (code[offset] === '"') {
+    return findStringEnd(code, offset);
+  }
+  if (code[offset] === '|') {
+    const end = code.indexOf('|', offset + 1);
+    const lineEnd = code.indexOf('\n', offset);
+    return end !== -1 && (lineEnd === -1 || end < lineEnd) ? end : offset;
+  }
+  return offset;
+}
+
+/**
+ * Push an opening character onto the stack or pop the opener a closing one
+ * matches. Returns false for a closer that matches no opener. A ">" right
+ * after a node id, outside any shape, opens an asymmetric shape (A>text]).
+ */
+function trackBracket(code: string, offset: number, openers: number[]): boolean {
+  const char = code[offset];
+  const asymmetric = char === '>' && openers.length === 0 && /\w/.test(code[offset - 1] ?? '');
+  if ('[({'.includes(char) || asymmetric) {
+    openers.push(offset);
+    return true;
+  }
+  if (!(char in CLOSER_OPENERS)) {
+    return true;
+  }
+  const opener = openers.pop();
+  return opener !== undefined && CLOSER_OPENERS[char].includes(code[opener]);
+}
+
+/**
+ * Check the shapes and quotes of one flowchart line, starting at an offset.
+ * Returns the issue found, if any, and the offset of the newline ending the
+ * line (-1 at the end of the code).
+ */
+function checkShapeLine(code: string, start: number): { issue?: StructureIssue; next: number } {
+  const openers: number[] = [];
+  let offset = start;
+
+  for (; offset < code.length && code[offset] !== '\n'; offset++) {
+    const end = skipText(code, offset);
+    if (end === -1 || (end === offset && !trackBracket(code, offset, openers))) {
+      return { issue: unexpectedCharacter(code, offset), next: code.indexOf('\n', offset) };
+    }
+    offset = end;
+  }
+
+  return {
+    issue: openers.length > 0 ? unclosedShape(code, openers[0]) : undefined,
+    next: offset < code.length ? offset : -1,
+  };
+}
+
+/**
+ * Find flowchart node shapes and quoted strings that are not closed on their
+ * line (markdown strings may span lines), and closers nothing opened
+ */
+function findShapeIssues(code: string): StructureIssue[] {
+  const issues: StructureIssue[] = [];
+  let offset = 0;
+
+  while (offset !== -1 && offset < code.length) {
+    const { issue, next } = checkShapeLine(code, offset);
+    if (issue) {
+      issues.push(issue);
+    }
+    offset = next === -1 ? -1 : next + 1;
+  }
+
+  return issues;
+}
+
+/**
+ * Lines of a diagram with the offset each starts at
+ */
+function linesWithOffsets(code: string): { line: string; offset: number }[] {
+  let offset = 0;
+  return code.split('\n').map((line) => {
+    const entry = { line, offset };
+    offset += line.length + 1;
+    return entry;
+  });
+}
+
+/**
+ * Match block openers and closers like a stack. Openers left over are
+ * reported as unclosed blocks, closers without an opener as unexpected.
+ */
+function matchBlocks(
+  code: string,
+  opener: RegExp,
+  closer: RegExp,
+  token: string
+): StructureIssue[] {
+  const issues: StructureIssue[] = [];
+  const open: StructureIssue[] = [];
+
+  for (const { line, offset } of linesWithOffsets(code)) {
+    const opened = line.match(opener)?.indices?.[1];
+    const closed = line.match(closer)?.indices?.[1];
+    if (opened) {
+      open.push({
+        code: 'MMD-UNCLOSED-BLOCK',
+        offset: offset + opened[0],
+        length: opened[1] - opened[0],
+      });
+    } else if (closed && !open.pop()) {
+      issues.push({
+        code: 'MMD-UNEXPECTED-TOKEN',
+        offset: offset + closed[0],
+        length: closed[1] - closed[0],
+        params: { token },
+      });
+    }
+  }
+
+  return [...issues, ...open];
+}
+
+/**
+ * Blank out accessibility statements, keeping offsets and line breaks
+ */
+function blankAccessibility(code: string): string {
+  return code.replace(ACCESSIBILITY_PATTERN, (statement) => statement.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Find the structural problems of a diagram of a family (e.g. "flowchart"),
+ * in source order
+ */
+export function findStructureIssues(diagram: string, family: string): StructureIssue[] {
+  const issues: StructureIssue[] = [];
+  const code = blankAccessibility(diagram);
+
+  const keywords = END_BLOCK_KEYWORDS[family];
+  if (keywords) {
+    const opener = new RegExp(`^\\s*(${keywords.join('|')})(?=\\s|$)`, 'd');
+    issues.push(...matchBlocks(code, opener, END_PATTERN, 'end'));
+  }
+  if (BRACE_BLOCK_FAMILIES.includes(family)) {
+    issues.push(...matchBlocks(code, BRACE_OPEN_PATTERN, BRACE_CLOSE_PATTERN, '}'));
+  }
+  if (family === 'flowchart') {
+    issues.push(...findShapeIssues(code));
+  }
+
+  return issues.sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,310 @@
+/**
+ * Style consistency checks for mermaid source
+ *
+ * Mermaid accepts several spellings for the same thing ("graph" and
+ * "flowchart", "TD" and "TB", tabs and spaces). The checks report spellings
+ * that differ from the configured preferences, scanning the code line by
+ * line after mermaid's preprocessing.
+ */
+
+import { getDiagramFamily, matchesDiagramType } from './diagram-types.js';
+import type { IssueMessage } from './messages.js';
+import { MESSAGE_PATTERN } from './semantics.js';
+
+/**
+ * Style check names, usable in suppression directives
+ */
+export type StyleCheck = 'header' | 'direction' | 'indent' | 'quotedLabels' | 'arrow';
+
+/**
+ * Preferred spellings; unset preferences are not checked
+ */
+export interface StylePreferences {
+  /** Flowchart header keyword */
+  headerKeyword?: 'flowchart' | 'graph';
+  /** Spelling of the top-to-bottom direction */
+  direction?: 'TB' | 'TD';
+  /** Spaces per indentation level, or "tab" to indent with tabs */
+  indent?: number | 'tab';
+  /** Require flowchart node labels to be quoted */
+  quotedLabels?: boolean;
+  /** Allowed arrows per diagram type, e.g. { flowchart: ['-->', '-.->'] } */
+  arrows?: Record<string, string[]>;
+}
+
+/**
+ * Style deviation found in a diagram
+ */
+export interface StyleIssue extends IssueMessage {
+  check: StyleCheck;
+  /** Offset of the offending text in the diagram code */
+  offset: number;
+  length: number;
+  /** Preferred text, when the offending text can simply be replaced */
+  replacement?: string;
+}
+
+/**
+ * Header and direction statements
+ */
+const FLOWCHART_HEADER_PATTERN = /^(graph|flowchart)\b/d;
+const HEADER_DIRECTION_PATTERN = /^[\w-]+[ \t]+(TD|TB)\b/d;
+const DIRECTION_STATEMENT_PATTERN = /^[ \t]*direction[ \t]+(TD|TB)\b/dgm;
+
+/**
+ * Flowchart node shapes, longest opening first, with their closing brackets
+ */
+const NODE_SHAPES: [string, string][] = [
+  ['(((', ')))'],
+  ['([', '])'],
+  ['[(', ')]'],
+  ['[[', ']]'],
+  ['[/', '/]'],
+  ['[\\', '\\]'],
+  ['((', '))'],
+  ['{{', '}}'],
+  ['[', ']'],
+  ['(', ')'],
+  ['{', '}'],
+];
+
+/**
+ * A node id directly followed by a shape opening
+ */
+const NODE_SHAPE_PATTERN = /[A-Za-z0-9_][\w-]*(?=[[({])/g;
+
+/**
+ * Flowchart statements that contain no node shapes
+ */
+const NON_NODE_STATEMENT_PATTERN = /^\s*(?:classDef|class|style|linkStyle|click)\b/;
+
+/**
+ * Flowchart links ("--" and "-." alone open a link with text and are not arrows)
+ */
+const FLOWCHART_ARROW_PATTERN =
+  /(?:<|(?<=\s)[xo])?(?:-{2,}(?:>|-|[xo](?=\s))|={2,}(?:>|=|[xo](?=\s))|-?\.+-(?:>|[xo](?=\s))?|~{3,})/g;
+
+/**
+ * Edge label text between pipes, e.g. -->|label|
+ */
+const EDGE_LABEL_PATTERN = /\|[^|\n]*\|/g;
+
+/**
+ * Span of text in a line, as [start, end)
+ */
+type Span = [number, number];
+
+/**
+ * Find the label of each flowchart node shape in a line
+ */
+function findNodeLabels(line: string): Span[] {
+  const labels: Span[] = [];
+  let searchFrom = 0;
+
+  for (const match of line.matchAll(NODE_SHAPE_PATTERN)) {
+    const shapeStart = match.index + match[0].length;
+    if (shapeStart < searchFrom) {
+      continue;
+    }
+    const shape = NODE_SHAPES.find(([opening]) => line.startsWith(opening, shapeStart));
+    if (!shape) {
+      continue;
+    }
+    const [open, close] = shape;
+    const labelStart = shapeStart + open.length;
+    // A quoted label may contain closing brackets
+    const quoteEnd = line[labelStart] === '"' ? line.indexOf('"', labelStart + 1) : labelStart;
+    const labelEnd = line.indexOf(close, Math.max(quoteEnd, labelStart));
+    if (labelEnd === -1) {
+      continue;
+    }
+    labels.push([labelStart, labelEnd]);
+    searchFrom = labelEnd + close.length;
+  }
+  return labels;
+}
+
+/**
+ * Blank out spans of a line, keeping offsets intact
+ */
+function maskSpans(line: string, spans: Span[]): string {
+  let masked = line;
+  for (const [start, end] of spans) {
+    masked = masked.substring(0, start) + ' '.repeat(end - start) + masked.substring(end);
+  }
+  return masked;
+}
+
+/**
+ * Report a flowchart header keyword other than the preferred one
+ */
+function checkHeaderKeyword(code: string, preferred: string): StyleIssue[] {
+  const match = code.match(FLOWCHART_HEADER_PATTERN);
+  if (!match || match[1] === preferred) {
+    return [];
+  }
+  return [
+    {
+      check: 'header',
+      offset: 0,
+      length: match[1].length,
+      params: { preferred, actual: match[1] },
+      replacement: preferred,
+    },
+  ];
+}
+
+/**
+ * Report top-to-bottom directions not spelled the preferred way
+ */
+function checkDirection(code: string, preferred: string): StyleIssue[] {
+  const header = code.match(HEADER_DIRECTION_PATTERN);
+  const directions = [...(header ? [header] : []), ...code.matchAll(DIRECTION_STATEMENT_PATTERN)];
+
+  return directions
+    .filter((match) => match[1] !== preferred)
+    .map((match) => ({
+      check: 'direction',
+      offset: match.indices?.[1]?.[0] ?? 0,
+      length: match[1].length,
+      params: { preferred, actual: match[1] },
+      replacement: preferred,
+    }));
+}
+
+/**
+ * Get the problem with a line's indentation, if any
+ */
+function checkIndentLine(indentation: string, indent: number | 'tab'): IssueMessage | null {
+  if (indent === 'tab') {
+    return indentation.includes(' ') ? { variant: 'spaces', params: {} } : null;
+  }
+  if (indentation.includes('\t')) {
+    return { variant: 'tabs', params: { indent } };
+  }
+  if (indentation.length % indent !== 0) {
+    return { params: { width: indentation.length, indent } };
+  }
+  return null;
+}
+
+/**
+ * Check the indentation of every line after the header
+ */
+function checkIndentation(code: string, indent: number | 'tab'): StyleIssue[] {
+  const issues: StyleIssue[] = [];
+  let lineOffset = 0;
+
+  for (const [index, line] of code.split('\n').entries()) {
+    const indentation = line.match(/^[ \t]*/)?.[0] ?? '';
+    const problem = index > 0 && line.trim() ? checkIndentLine(indentation, indent) : null;
+    if (problem) {
+      issues.push({ check: 'indent', offset: lineOffset, length: indentation.length, ...problem });
+    }
+    lineOffset += line.length + 1;
+  }
+  return issues;
+}
+
+/**
+ * Report flowchart node labels that are not quoted
+ */
+function checkQuotedLabels(code: string): StyleIssue[] {
+  const issues: StyleIssue[] = [];
+  let lineOffset = 0;
+
+  for (const line of code.split('\n')) {
+    const labels = NON_NODE_STATEMENT_PATTERN.test(line) ? [] : findNodeLabels(line);
+    for (const [start, end] of labels) {
+      const label = line.substring(start, end);
+      if (label.trim() && !/^".*"$/s.test(label.trim())) {
+        issues.push({
+          check: 'quotedLabels',
+          offset: lineOffset + start,
+          length: end - start,
+          params: { label: label.trim() },
+        });
+      }
+    }
+    lineOffset += line.length + 1;
+  }
+  return issues;
+}
+
+/**
+ * Find the arrows of a flowchart or sequence diagram with their offsets
+ */
+function findArrows(code: string, family: string): { arrow: string; offset: number }[] {
+  const arrows: { arrow: string; offset: number }[] = [];
+  let lineOffset = 0;
+
+  for (const line of code.split('\n')) {
+    if (family === 'sequence') {
+      const message = line.match(MESSAGE_PATTERN);
+      const [start] = message?.indices?.[2] ?? [0];
+      if (message) {
+        arrows.push({ arrow: message[2], offset: lineOffset + start });
+      }
+    } else if (!NON_NODE_STATEMENT_PATTERN.test(line)) {
+      const edgeLabels = [...line.matchAll(EDGE_LABEL_PATTERN)].map(
+        (match): Span => [match.index, match.index + match[0].length]
+      );
+      const masked = maskSpans(line, [...findNodeLabels(line), ...edgeLabels]);
+      for (const match of masked.matchAll(FLOWCHART_ARROW_PATTERN)) {
+        arrows.push({ arrow: match[0], offset: lineOffset + match.index });
+      }
+    }
+    lineOffset += line.length + 1;
+  }
+  return arrows;
+}
+
+/**
+ * Report arrows missing from the allowed arrows of the diagram type
+ */
+function checkArrows(code: string, diagramType: string, allowed: string[]): StyleIssue[] {
+  const family = getDiagramFamily(diagramType);
+  if (family !== 'flowchart' && family !== 'sequence') {
+    return [];
+  }
+  return findArrows(code, family)
+    .filter(({ arrow }) => !allowed.includes(arrow))
+    .map(({ arrow, offset }) => ({
+      check: 'arrow',
+      offset,
+      length: arrow.length,
+      params: { arrow, family, allowed: allowed.join(', ') },
+    }));
+}
+
+/**
+ * Find deviations from the preferred style, in source order
+ */
+export function findStyleIssues(
+  code: string,
+  diagramType: string,
+  preferences: StylePreferences
+): StyleIssue[] {
+  const issues: StyleIssue[] = [];
+  const isFlowchart = getDiagramFamily(diagramType) === 'flowchart';
+
+  if (preferences.headerKeyword && isFlowchart) {
+    issues.push(...checkHeaderKeyword(code, preferences.headerKeyword));
+  }
+  if (preferences.direction) {
+    issues.push(...checkDirection(code, preferences.direction));
+  }
+  if (preferences.indent !== undefined) {
+    issues.push(...checkIndentation(code, preferences.indent));
+  }
+  if (preferences.quotedLabels && isFlowchart) {
+    issues.push(...checkQuotedLabels(code));
+  }
+  for (const [name, allowed] of Object.entries(preferences.arrows ?? {})) {
+    if (matchesDiagramType(diagramType, name)) {
+      issues.push(...checkArrows(code, diagramType, allowed));
+    }
+  }
+
+  return issues.sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,51 @@
+/**
+ * "Did you mean" suggestions for misspelled names
+ */
+
+/**
+ * Edit distance between two strings (insertions, deletions, substitutions
+ * and transpositions of adjacent characters)
+ */
+function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Find the candidate closest to a name, or null if none is close enough.
+ * Case differences count as a single edit, and names of up to five
+ * characters may be off by one edit only.
+ */
+export function suggestClosest(name: string, candidates: readonly string[]): string | null {
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  let best: string | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+
+  for (const candidate of candidates) {
+    const distance =
+      candidate.toLowerCase() === name.toLowerCase()
+        ? 1
+        : editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance <= maxDistance && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,110 @@
+/**
+ * Suppression directives inside Mermaid and math blocks
+ *
+ * Mermaid:  %% mermaid-lint-disable [check ...]
+ *           %% mermaid-lint-disable-next-line [check ...]
+ *           %% mermaid-lint-enable
+ * Math:     % katex-lint-disable [check ...]   (same forms)
+ */
+
+import { type MappedCode, positionAt } from './source-map.js';
+
+/**
+ * Markdown line range in which checks are silenced
+ */
+export interface Suppression {
+  fromLine: number;
+  toLine: number;
+  /** Silenced checks, or null for all checks */
+  checks: string[] | null;
+}
+
+/**
+ * Directive comment patterns: capture the directive kind and its check list
+ */
+export const MERMAID_SUPPRESSION_PATTERN: RegExp =
+  /^\s*%%\s*mermaid-lint-(disable-next-line|disable|enable)\b(.*)$/;
+export const KATEX_SUPPRESSION_PATTERN: RegExp =
+  /^\s*%\s*katex-lint-(disable-next-line|disable|enable)\b(.*)$/;
+
+/**
+ * Parse the check list following a directive (comma or space separated)
+ */
+function parseChecks(text: string): string[] | null {
+  const checks = text.split(/[\s,]+/).filter(Boolean);
+  return checks.length > 0 ? checks : null;
+}
+
+/**
+ * Collect suppressions from directive comments in mapped code.
+ * "disable" silences until the end of the block or the next "enable",
+ * which ends every region opened before it.
+ */
+export function parseSuppressions(mapped: MappedCode, pattern: RegExp): Suppression[] {
+  const suppressions: Suppression[] = [];
+  let openRegions: Suppression[] = [];
+  let offset = 0;
+
+  for (const codeLine of mapped.code.split('\n')) {
+    const line = positionAt(mapped, offset).line;
+    offset += codeLine.length + 1;
+
+    const match = codeLine.match(pattern);
+    if (!match) {
+      continue;
+    }
+
+    const checks = parseChecks(match[2]);
+    if (match[1] === 'disable-next-line') {
+      const nextLine = positionAt(mapped, offset).line;
+      suppressions.push({ fromLine: nextLine, toLine: nextLine, checks });
+    } else if (match[1] === 'disable') {
+      const region = { fromLine: line, toLine: Number.POSITIVE_INFINITY, checks };
+      suppressions.push(region);
+      openRegions.push(region);
+    } else {
+      for (const region of openRegions) {
+        region.toLine = line;
+      }
+      openRegions = [];
+    }
+  }
+
+  return suppressions;
+}
+
+/**
+ * Check whether a check is silenced on a Markdown line
+ */
+export function isSuppressed(suppressions: Suppression[], line: number, check: string): boolean {
+  return suppressions.some(
+    (suppression) =>
+      line >= suppression.fromLine &&
+      line <= suppression.toLine &&
+      (suppression.checks === null || suppression.checks.includes(check))
+  );
+}
+
+/**
+ * Check whether every non-blank line of the code has all checks silenced
+ */
+export function isFullySuppressed(mapped: MappedCode, suppressions: Suppression[]): boolean {
+  if (suppressions.length === 0) {
+    return false;
+  }
+
+  let offset = 0;
+  for (const codeLine of mapped.code.split('\n')) {
+    const line = positionAt(mapped, offset).line;
+    offset += codeLine.length + 1;
+
+    const covered = suppressions.some(
+      (suppression) =>
+        suppression.checks === null && line >= suppression.fromLine && line <= suppression.toLine
+    );
+    if (codeLine.trim() && !covered) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,277 @@
+/**
+ * Pool of worker threads for validation
+ *
+ * Each worker loads its own jsdom and mermaid, so validation can use several
+ * cores without installing browser globals in the markdownlint process.
+ * Workers run one task at a time; a task that exceeds its timeout has its
+ * worker terminated, which is the only way to stop a parser stuck in
+ * synchronous code. Workers are unreferenced while idle, so the pool never
+ * keeps a CLI process alive; closeWorkerPool terminates them explicitly.
+ * When workers keep failing before they are ready, the queued tasks fail
+ * instead of waiting for a worker that never starts.
+ */
+
+import { isMainThread, parentPort, Worker, workerData } from 'node:worker_threads';
+
+/**
+ * workerData flag marking the workers this pool starts
+ */
+const POOL_WORKER_FLAG = 'markdownlintRuleMermaidWorker';
+
+/**
+ * Messages between the pool and its workers
+ */
+interface WorkerRequest {
+  id: number;
+  payload: unknown;
+}
+
+interface WorkerResponse {
+  id: number;
+  result?: unknown;
+  /** Message of the error the handler threw */
+  error?: string;
+}
+
+/**
+ * Sent once a worker has warmed up and accepts tasks
+ */
+interface WorkerReady {
+  ready: true;
+}
+
+/**
+ * Task waiting for a worker
+ */
+interface QueuedTask {
+  payload: unknown;
+  /** Time the task may run once a worker picks it up */
+  timeoutMs?: number;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Task a worker is running
+ */
+interface RunningTask extends QueuedTask {
+  id: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * A pool worker and the task it is running
+ */
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;
+  task: RunningTask | null;
+}
+
+/**
+ * Error for tasks that ran longer than their timeout
+ */
+export class WorkerTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs} ms`);
+  }
+}
+
+// Workers of the pool, started on demand
+const poolWorkers: PoolWorker[] = [];
+
+// Tasks waiting for a worker, in submission order
+const taskQueue: QueuedTask[] = [];
+
+// Script the workers run and the largest pool size requested
+let poolScript: URL | null = null;
+let poolSize = 0;
+
+// Id of the next task
+let nextTaskId = 0;
+
+/**
+ * Workers that may fail in a row before they are ready before the queue is given up
+ */
+const MAX_STARTUP_FAILURES = 3;
+
+// Workers that failed before they were ready since one last was
+let startupFailures = 0;
+
+/**
+ * Check whether this thread is a pool worker
+ */
+export function isPoolWorker(): boolean {
+  return (
+    !isMainThread && (workerData as Record<string, unknown> | null)?.[POOL_WORKER_FLAG] === true
+  );
+}
+
+/**
+ * Answer the pool's requests with a handler (call in the worker script).
+ * The worker accepts tasks once warmUp has finished, so its startup cost does
+ * not count toward task timeouts.
+ */
+export function serveWorkerRequests(
+  handler: (payload: unknown) => Promise<unknown>,
+  warmUp: () => Promise<unknown> = async () => undefined
+): void {
+  parentPort?.on('message', async ({ id, payload }: WorkerRequest) => {
+    let response: WorkerResponse;
+    try {
+      response = { id, result: await handler(payload) };
+    } catch (error) {
+      response = { id, error: error instanceof Error ? error.message : String(error) };
+    }
+    parentPort?.postMessage(response);
+  });
+
+  const ready: WorkerReady = { ready: true };
+  warmUp().then(
+    () => parentPort?.postMessage(ready),
+    () => parentPort?.postMessage(ready)
+  );
+}
+
+/**
+ * Finish the running task of a worker and hand it the next one
+ */
+function finishTask(poolWorker: PoolWorker): RunningTask | null {
+  const { task } = poolWorker;
+  clearTimeout(task?.timer);
+  poolWorker.task = null;
+  poolWorker.worker.unref();
+  return task;
+}
+
+/**
+ * Fail the task of a worker that stopped and drop it from the pool. After
+ * too many workers failed to start, fail the queued tasks as well.
+ */
+function removeWorker(poolWorker: PoolWorker, error: Error): void {
+  const index = poolWorkers.indexOf(poolWorker);
+  if (index === -1) {
+    return;
+  }
+  poolWorkers.splice(index, 1);
+  finishTask(poolWorker)?.reject(error);
+  if (!poolWorker.ready && ++startupFailures >= MAX_STARTUP_FAILURES) {
+    startupFailures = 0;
+    for (const task of taskQueue.splice(0)) {
+      task.reject(new Error(`Worker failed to start: ${error.message}`));
+    }
+  }
+  dispatchTasks();
+}
+
+/**
+ * Handle a worker's ready signal or task result
+ */
+function handleMessage(poolWorker: PoolWorker, message: WorkerResponse | WorkerReady): void {
+  if ('ready' in message) {
+    poolWorker.ready = true;
+    startupFailures = 0;
+  } else {
+    const task = poolWorker.task?.id === message.id ? finishTask(poolWorker) : null;
+    if (message.error === undefined) {
+      task?.resolve(message.result);
+    } else {
+      task?.reject(new Error(message.error));
+    }
+  }
+  dispatchTasks();
+}
+
+/**
+ * Start a worker running the pool script
+ */
+function startWorker(script: URL): PoolWorker {
+  const worker = new Worker(script, { workerData: { [POOL_WORKER_FLAG]: true } });
+  const poolWorker: PoolWorker = { worker, ready: false, task: null };
+
+  worker.on('message', (message: WorkerResponse | WorkerReady) =>
+    handleMessage(poolWorker, message)
+  );
+  worker.on('error', (error) => removeWorker(poolWorker, error));
+  worker.on('exit', (code) =>
+    removeWorker(poolWorker, new Error(`Worker exited with code ${code}`))
+  );
+
+  poolWorkers.push(poolWorker);
+  return poolWorker;
+}
+
+/**
+ * Run a task in a worker, terminating the worker if the task times out
+ */
+function runTask(poolWorker: PoolWorker, queued: QueuedTask): void {
+  const task: RunningTask = { ...queued, id: nextTaskId++ };
+  if (task.timeoutMs !== undefined) {
+    const { timeoutMs } = task;
+    task.timer = setTimeout(() => {
+      removeWorker(poolWorker, new WorkerTimeoutError(timeoutMs));
+      poolWorker.worker.terminate();
+    }, timeoutMs);
+  }
+  poolWorker.task = task;
+  poolWorker.worker.postMessage({ id: task.id, payload: task.payload } satisfies WorkerRequest);
+}
+
+/**
+ * Hand queued tasks to idle workers, starting workers while the pool is below its size
+ */
+function dispatchTasks(): void {
+  for (const poolWorker of poolWorkers) {
+    const queued = poolWorker.ready && !poolWorker.task ? taskQueue.shift() : undefined;
+    if (queued) {
+      runTask(poolWorker, queued);
+    }
+  }
+
+  // Workers still starting up will take the tasks they are needed for
+  const starting = poolWorkers.filter((poolWorker) => !poolWorker.ready).length;
+  let missing = Math.min(taskQueue.length - starting, poolSize - poolWorkers.length);
+  while (poolScript && missing > 0) {
+    startWorker(poolScript);
+    missing--;
+  }
+
+  // Keep the process alive while there is work to do
+  for (const { worker, task, ready } of poolWorkers) {
+    if (task || (!ready && taskQueue.length > 0)) {
+      worker.ref();
+    } else {
+      worker.unref();
+    }
+  }
+}
+
+/**
+ * Run a task in a pool of up to size workers running the script. The timeout
+ * counts from the moment a worker picks the task up.
+ */
+export function runInWorker<T>(
+  script: URL,
+  size: number,
+  payload: unknown,
+  timeoutMs?: number
+): Promise<T> {
+  poolScript = script;
+  poolSize = Math.max(poolSize, size);
+
+  return new Promise<T>((resolve, reject) => {
+    taskQueue.push({ payload, timeoutMs, resolve: resolve as (result: unknown) => void, reject });
+    dispatchTasks();
+  });
+}
+
+/**
+ * Terminate every worker of the pool, failing the tasks still waiting
+ */
+export async function closeWorkerPool(): Promise<void> {
+  poolSize = 0;
+  for (const task of taskQueue.splice(0)) {
+    task.reject(new Error('Worker pool closed'));
+  }
+  await Promise.all(poolWorkers.map(({ worker }) => worker.terminate()));
+}
@@ -0,0 +1,6 @@
+// Stands in for a mermaid build that crashes the worker validating with it
+export default {
+  initialize() {
+    process.exit(1);
+  },
+};
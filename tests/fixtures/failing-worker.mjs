@@ -0,0 +1,2 @@
+// A worker script that fails while loading, for the pool's startup failure handling
+throw new Error('Worker failed at import');
@@ -0,0 +1,16 @@
+// Stands in for an old mermaid build that does not know sequence diagrams
+import mermaid from 'mermaid';
+
+function parse(text, options) {
+  if (/^\s*sequenceDiagram\b/m.test(text)) {
+    if (options?.suppressErrors) {
+      return Promise.resolve(false);
+    }
+    return Promise.reject(
+      new Error('No diagram type detected matching given configuration for text: sequenceDiagram')
+    );
+  }
+  return mermaid.parse(text, options);
+}
+
+export default { ...mermaid, parse };
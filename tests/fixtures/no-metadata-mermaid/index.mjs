@@ -0,0 +1,6 @@
+// Stands in for a mermaid 10 build, which cannot list its registered diagrams
+import mermaid from 'mermaid';
+
+const { getRegisteredDiagramsMetadata, ...rest } = mermaid;
+
+export default rest;
@@ -1,7 +1,23 @@
-import type { LintError } from 'markdownlint';
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { applyFixes, type LintError } from 'markdownlint';
 import { lint } from 'markdownlint/promise';
-import { describe, expect, it } from 'vitest';
-import mermaidSyntaxRule, { katexSyntaxRule } from '../src/index.js';
+import { describe, expect, it, vi } from 'vitest';
+import { writeCache } from '../src/cache.js';
+import { runCli } from '../src/cli.js';
+import mermaidSyntaxRule, {
+  clearCache,
+  closeWorkerPool,
+  ERROR_CODES,
+  katexSyntaxRule,
+  MESSAGE_CATALOGS,
+  mermaidAccessibilityRule,
+  mermaidSecurityRule,
+  mermaidStyleRule,
+} from '../src/index.js';
+import { resolveBundledMermaid } from '../src/mermaid-module.js';
+import { runInWorker } from '../src/worker-pool.js';
 
 async function runLint(
   content: string,
@@ -18,6 +34,11 @@ async function runLint(
   return result.test;
 }
 
+async function runFix(content: string): Promise<string> {
+  const errors = await runLint(content);
+  return applyFixes(content, errors);
+}
+
 describe('mermaid-syntax rule', () => {
   describe('valid mermaid diagrams', () => {
     it('should pass valid flowchart', async () => {
@@ -223,306 +244,2599 @@ flowchart LR
 `;
       const errors = await runLint(content);
       expect(errors.length).toBeGreaterThan(0);
-      // Error on line 3 of diagram content, startLine is 2 (fence line), so 2 + 3 - 1 = 4
-      expect(errors[0].lineNumber).toBe(4);
+      // Error on line 3 of diagram content, which starts after the fence on line 2
+      expect(errors[0].lineNumber).toBe(5);
     });
   });
 
-  describe('multiple code blocks', () => {
-    it('should validate all mermaid blocks in document', async () => {
+  describe('source mapping', () => {
+    it('should map errors after leading blank lines', async () => {
       const content = `
-# Diagram 1
-
 \`\`\`mermaid
-flowchart LR
-  A --> B
-\`\`\`
 
-# Diagram 2
 
-\`\`\`mermaid
-sequenceDiagram
-  Alice->>Bob: Hello
+flowchart LR
+  A --> [B
 \`\`\`
 `;
       const errors = await runLint(content);
-      expect(errors).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(6);
     });
 
-    it('should report errors from multiple blocks', async () => {
+    it('should map errors after comment lines', async () => {
       const content = `
 \`\`\`mermaid
-
+%% title comment
+flowchart LR
+  %% another comment
+  A --> B
+  C --> [D
 \`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(7);
+    });
 
+    it('should map errors after frontmatter and init directives', async () => {
+      const content = `
 \`\`\`mermaid
-
+---
+title: Example
+---
+%%{init: {"theme": "forest"}}%%
+flowchart LR
+  C --> [D
 \`\`\`
 `;
       const errors = await runLint(content);
-      expect(errors.length).toBe(2);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(8);
     });
-  });
 
-  describe('configuration', () => {
-    it('should work with basic mode enabled', async () => {
+    it('should report the column of the offending token', async () => {
       const content = `
 \`\`\`mermaid
 flowchart LR
-  A --> B
+  C --> [D
 \`\`\`
 `;
-      const errors = await runLint(content, { basic: true });
-      expect(errors).toHaveLength(0);
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorRange).toEqual([9, 1]);
     });
 
-    it('should detect empty block in basic mode', async () => {
+    it('should report columns inside indented list fences', async () => {
       const content = `
-\`\`\`mermaid
+- Item
 
-\`\`\`
+  \`\`\`mermaid
+  flowchart LR
+    C --> [D
+  \`\`\`
 `;
-      const errors = await runLint(content, { basic: true });
-      expect(errors.length).toBeGreaterThan(0);
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(6);
+      expect(errors[0].errorRange).toEqual([11, 1]);
     });
-  });
 
-  describe('HTML embedded mermaid', () => {
-    it('should validate mermaid in pre tag with class', async () => {
+    it('should report columns past decoded HTML entities', async () => {
       const content = `
 <pre class="mermaid">
 flowchart LR
-  A --> B
+  A --&gt; B --&gt; [C
 </pre>
 `;
       const errors = await runLint(content);
-      expect(errors).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(4);
+      expect(errors[0].errorRange).toEqual([21, 1]);
     });
 
-    it('should validate mermaid in div tag with class', async () => {
+    it('should keep ranges within the line for errors at end of line', async () => {
       const content = `
-<div class="mermaid">
-flowchart LR
-  A --> B
-</div>
+\`\`\`mermaid
+sequenceDiagram
+  Alice->Bob Hello
+\`\`\`
 `;
       const errors = await runLint(content);
-      expect(errors).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(4);
+      expect(errors[0].errorRange).toEqual([18, 1]);
     });
+  });
 
-    it('should validate mermaid in code tag with language-mermaid class', async () => {
+  describe('autofix', () => {
+    it('should append a missing end for an unclosed subgraph', async () => {
       const content = `
-<code class="language-mermaid">
+\`\`\`mermaid
 flowchart LR
-  A --> B
-</code>
+  subgraph A
+    B --> C
+\`\`\`
 `;
-      const errors = await runLint(content);
-      expect(errors).toHaveLength(0);
+      const fixed = await runFix(content);
+      expect(fixed).toBe(`
+\`\`\`mermaid
+flowchart LR
+  subgraph A
+    B --> C
+  end
+\`\`\`
+`);
+      expect(await runLint(fixed)).toHaveLength(0);
     });
 
-    it('should detect errors in HTML mermaid blocks', async () => {
+    it('should append every missing end for nested sequence blocks', async () => {
       const content = `
-<pre class="mermaid">
-flowchart LR
-  A --> [B
-</pre>
+\`\`\`mermaid
+sequenceDiagram
+  loop Every minute
+    alt ok
+      Alice->>Bob: Hello
+\`\`\`
 `;
-      const errors = await runLint(content);
-      expect(errors.length).toBeGreaterThan(0);
-      expect(errors[0].errorDetail).toContain('bracket');
+      const fixed = await runFix(content);
+      expect(fixed).toContain('      Alice->>Bob: Hello\n    end\n  end\n');
+      expect(await runLint(fixed)).toHaveLength(0);
     });
 
-    it('should detect empty HTML mermaid blocks', async () => {
+    it('should keep list indentation on appended lines', async () => {
       const content = `
-<div class="mermaid">
-</div>
+- Item
+
+  \`\`\`mermaid
+  flowchart LR
+    subgraph A
+      B --> C
+  \`\`\`
 `;
-      const errors = await runLint(content);
-      expect(errors.length).toBeGreaterThan(0);
-      expect(errors[0].errorDetail).toContain('Empty Mermaid diagram');
+      const fixed = await runFix(content);
+      expect(fixed).toContain('      B --> C\n    end\n  ```');
+      expect(await runLint(fixed)).toHaveLength(0);
     });
 
-    it('should handle mermaid class with other classes', async () => {
+    it('should close an unclosed node shape at the end of the line', async () => {
       const content = `
-<pre class="diagram mermaid syntax-highlight">
+\`\`\`mermaid
 flowchart LR
-  A --> B
-</pre>
+  A --> B[text
+  B --> C
+\`\`\`
 `;
-      const errors = await runLint(content);
-      expect(errors).toHaveLength(0);
+      const fixed = await runFix(content);
+      expect(fixed).toContain('  A --> B[text]\n');
+      expect(await runLint(fixed)).toHaveLength(0);
     });
 
-    it('should handle HTML entities in mermaid code', async () => {
+    it('should add a missing colon to sequence messages', async () => {
       const content = `
-<pre class="mermaid">
-flowchart LR
-  A --&gt; B
-</pre>
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob Hello there
+\`\`\`
 `;
-      const errors = await runLint(content);
-      expect(errors).toHaveLength(0);
+      const fixed = await runFix(content);
+      expect(fixed).toContain('  Alice->>Bob: Hello there\n');
+      expect(await runLint(fixed)).toHaveLength(0);
     });
 
-    it('should validate multiple HTML mermaid blocks', async () => {
+    it('should replace smart quotes with ASCII quotes', async () => {
       const content = `
-<div class="mermaid">
+\`\`\`mermaid
 flowchart LR
-  A --> B
-</div>
+  A["label“] --> B
+\`\`\`
+`;
+      const fixed = await runFix(content);
+      expect(fixed).toContain('  A["label"] --> B\n');
+      expect(await runLint(fixed)).toHaveLength(0);
+    });
 
-<pre class="mermaid">
-sequenceDiagram
-  Alice->>Bob: Hello
-</pre>
+    it('should replace full-width arrows with ASCII arrows', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A → B
+  B －－＞ C
+\`\`\`
 `;
       const errors = await runLint(content);
-      expect(errors).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      // Fixing only the first line would not make the diagram valid
+      expect(errors[0].fixInfo).toBeNull();
+
+      const fixed = await runFix(content.replace('A → B', 'A --> B'));
+      expect(fixed).toContain('  B --> C\n');
+      expect(await runLint(fixed)).toHaveLength(0);
     });
 
-    it('should report errors from multiple HTML blocks', async () => {
+    it('should not offer a fix that does not make the diagram valid', async () => {
       const content = `
-<div class="mermaid">
-</div>
-
-<pre class="mermaid">
-</pre>
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
 `;
       const errors = await runLint(content);
-      expect(errors.length).toBe(2);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].fixInfo).toBeNull();
     });
+  });
 
-    it('should ignore non-mermaid HTML blocks', async () => {
+  describe('diagram config', () => {
+    it('should pass valid frontmatter config and init directives', async () => {
       const content = `
-<pre class="javascript">
-const x = 1;
-</pre>
-
-<div class="diagram">
-some content
-</div>
+\`\`\`mermaid
+---
+title: Example
+config:
+  theme: forest
+  flowchart:
+    curve: linear
+---
+%%{init: {'look': 'handDrawn', 'flowchart': {'htmlLabels': false}}}%%
+flowchart LR
+  A --> B
+\`\`\`
 `;
       const errors = await runLint(content);
       expect(errors).toHaveLength(0);
     });
 
-    it('should validate mixed fence and HTML blocks', async () => {
+    it('should report malformed JSON in an init directive', async () => {
       const content = `
 \`\`\`mermaid
+%%{init: {"theme": "dark",}}%%
 flowchart LR
   A --> B
 \`\`\`
-
-<div class="mermaid">
-sequenceDiagram
-  Alice->>Bob: Hello
-</div>
 `;
       const errors = await runLint(content);
-      expect(errors).toHaveLength(0);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(3);
+      expect(errors[0].errorDetail).toContain('Invalid JSON in init directive');
+      expect(errors[0].errorRange).toEqual([27, 1]);
     });
-  });
-});
-
-// =============================================================================
-// KaTeX/Math Rule Tests
-// =============================================================================
-
-async function runKatexLint(
-  content: string,
-  config: Record<string, unknown> = {}
-): Promise<LintError[]> {
-  const result = await lint({
-    strings: { test: content },
-    customRules: [katexSyntaxRule],
-    config: {
-      default: false,
-      'katex-syntax': config,
-    },
-  });
-  return result.test;
-}
 
-describe('katex-syntax rule', () => {
-  describe('valid math expressions', () => {
-    it('should pass valid simple expression in math block', async () => {
+    it('should report invalid YAML in frontmatter', async () => {
       const content = `
-\`\`\`math
-E = mc^2
+\`\`\`mermaid
+---
+config:
+  theme: [forest
+---
+flowchart LR
+  A --> B
 \`\`\`
 `;
-      const errors = await runKatexLint(content);
-      expect(errors).toHaveLength(0);
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(5);
+      expect(errors[0].errorDetail).toContain('Invalid YAML in frontmatter');
     });
 
-    it('should pass valid expression in latex block', async () => {
+    it('should suggest the closest key for unknown directive keys', async () => {
       const content = `
-\`\`\`latex
-\\frac{a}{b}
+\`\`\`mermaid
+%%{init: {"theme": "dark", "themeVariable": {}}}%%
+flowchart LR
+  A --> B
 \`\`\`
 `;
-      const errors = await runKatexLint(content);
-      expect(errors).toHaveLength(0);
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toBe(
+        "MMD-UNKNOWN-CONFIG-KEY: Unknown config key 'themeVariable'. Did you mean 'themeVariables'?"
+      );
+      expect(errors[0].errorRange).toEqual([28, 15]);
     });
 
-    it('should pass valid expression in tex block', async () => {
+    it('should report unknown nested keys in frontmatter config', async () => {
       const content = `
-\`\`\`tex
-\\sqrt{x^2 + y^2}
+\`\`\`mermaid
+---
+config:
+  flowchart:
+    curv: basis
+---
+flowchart LR
+  A --> B
 \`\`\`
 `;
-      const errors = await runKatexLint(content);
-      expect(errors).toHaveLength(0);
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(6);
+      expect(errors[0].errorDetail).toContain("Did you mean 'config.flowchart.curve'?");
+      expect(errors[0].errorRange).toEqual([5, 4]);
     });
 
-    it('should pass valid expression in katex block', async () => {
+    it('should report invalid enum values', async () => {
       const content = `
-\`\`\`katex
-\\sum_{i=1}^{n} x_i
+\`\`\`mermaid
+---
+config:
+  layout: elk
+  securityLevel: lose
+---
+flowchart LR
+  A --> B
 \`\`\`
 `;
-      const errors = await runKatexLint(content);
-      expect(errors).toHaveLength(0);
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(6);
+      expect(errors[0].errorDetail).toBe(
+        "MMD-INVALID-CONFIG-VALUE: Invalid value 'lose' for config key 'config.securityLevel'. Did you mean 'loose'?"
+      );
     });
 
-    it('should pass valid integral expression', async () => {
+    it('should list allowed values when nothing is close', async () => {
       const content = `
-\`\`\`math
-\\int_{0}^{\\infty} e^{-x} dx
+\`\`\`mermaid
+%%{init: {"theme": "solarized"}}%%
+flowchart LR
+  A --> B
 \`\`\`
 `;
-      const errors = await runKatexLint(content);
-      expect(errors).toHaveLength(0);
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toContain('Expected one of: default, base, dark');
     });
 
-    it('should pass valid matrix expression', async () => {
+    it('should be silenced by the config check name', async () => {
       const content = `
-\`\`\`math
-\\begin{pmatrix}
-a & b \\\\
-c & d
-\\end{pmatrix}
+\`\`\`mermaid
+%% mermaid-lint-disable-next-line config
+%%{init: {"theme": "solarized"}}%%
+flowchart LR
+  A --> B
 \`\`\`
 `;
-      const errors = await runKatexLint(content);
+      const errors = await runLint(content);
       expect(errors).toHaveLength(0);
     });
+  });
 
-    it('should pass valid Greek letters', async () => {
+  describe('flowchart semantic checks', () => {
+    it('should pass flowcharts whose references are all defined', async () => {
       const content = `
-\`\`\`math
-\\alpha + \\beta = \\gamma
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  B --> C:::hot
+  subgraph S1
+    D
+  end
+  classDef hot fill:#f00
+  classDef cold fill:#00f
+  classDef default fill:#fff
+  class A,S1 cold
+  style D fill:#ff0
+  click B href "https://example.com"
+  linkStyle 0,1 stroke:red
 \`\`\`
 `;
-      const errors = await runKatexLint(content);
+      const errors = await runLint(content);
       expect(errors).toHaveLength(0);
     });
 
-    it('should ignore non-math code blocks', async () => {
+    it('should report style on an undefined node with a suggestion', async () => {
       const content = `
-\`\`\`javascript
-const x = 1;
+\`\`\`mermaid
+flowchart LR
+  Start --> Stop
+  style Strat fill:#f00
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(5);
+      expect(errors[0].errorDetail).toBe(
+        "MMD-UNDEFINED-REFERENCE: Node 'Strat' referenced by style is not defined. Did you mean 'Start'?"
+      );
+      expect(errors[0].errorRange).toEqual([9, 5]);
+    });
+
+    it('should report class and click on undefined nodes', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  classDef highlight fill:#f00
+  class A,X highlight
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  click Z href "https://example.com"
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(2);
+      expect(errors[0].lineNumber).toBe(6);
+      expect(errors[0].errorRange).toEqual([11, 1]);
+      expect(errors[1].lineNumber).toBe(12);
+      expect(errors[1].errorDetail).toContain("Node 'Z' referenced by click");
+    });
+
+    it('should report unused classDefs', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  classDef unused fill:#f00
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(5);
+      expect(errors[0].errorDetail).toContain("classDef 'unused' is never used");
+    });
+
+    it('should report linkStyle indices past the last link', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  B --> C
+  linkStyle 7 stroke:red
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(6);
+      expect(errors[0].errorDetail).toBe(
+        'MMD-LINKSTYLE-OUT-OF-RANGE: linkStyle index 7 is out of range: the diagram has 2 links (indices 0-1)'
+      );
+      expect(errors[0].errorRange).toEqual([13, 1]);
+    });
+
+    it('should skip checks disabled in the rule config', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  classDef unused fill:#f00
+  style Missing fill:#f00
+\`\`\`
+`;
+      const errors = await runLint(content, {
+        checks: { unusedClassDef: false, undefinedReference: false },
+      });
+      expect(errors).toHaveLength(0);
+      expect(await runLint(content, { checks: { unusedClassDef: false } })).toHaveLength(1);
+    });
+
+    it('should report every issue of a diagram', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  classDef unused fill:#f00
+  style C fill:#f00
+  linkStyle 3 stroke:red
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors.map((error) => [error.lineNumber, error.errorDetail?.split(':')[0]])).toEqual([
+        [5, 'MMD-UNUSED-CLASSDEF'],
+        [6, 'MMD-UNDEFINED-REFERENCE'],
+        [7, 'MMD-LINKSTYLE-OUT-OF-RANGE'],
+      ]);
+    });
+
+    it('should be silenced by the check name', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  %% mermaid-lint-disable-next-line unusedClassDef
+  classDef shared fill:#f00
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('sequence semantic checks', () => {
+    const sequenceChecks = {
+      checks: { activationBalance: true, undeclaredParticipant: true, noteActor: true },
+    };
+
+    it('should not run sequence checks unless enabled', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  participant Alice
+  Alice->>+Bob: Hello
+  Note over Carol: Aside
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should pass balanced and declared diagrams', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  participant A as Alice
+  actor B
+  A->>+B: Hello
+  activate A
+  B-->>-A: Hi
+  deactivate A
+  Note over A,B: Done
+\`\`\`
+`;
+      const errors = await runLint(content, sequenceChecks);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should report activations that are never closed', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>+Bob: Hello
+  Bob-->>Alice: Hi
+\`\`\`
+`;
+      const errors = await runLint(content, sequenceChecks);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(4);
+      expect(errors[0].errorDetail).toBe(
+        "MMD-UNBALANCED-ACTIVATION: Participant 'Bob' is activated but never deactivated"
+      );
+      expect(errors[0].errorRange).toEqual([12, 3]);
+    });
+
+    it('should report deactivating an inactive participant', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+  deactivate Bob
+\`\`\`
+`;
+      const errors = await runLint(content, sequenceChecks);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(5);
+      expect(errors[0].errorDetail).toBe(
+        "MMD-UNBALANCED-ACTIVATION: Participant 'Bob' is deactivated but is not active"
+      );
+    });
+
+    it('should report typos in declared participant names', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  participant Alice
+  participant Bob
+  Alice->>Bob: Hello
+  Bob->>Alcie: Hi
+\`\`\`
+`;
+      const errors = await runLint(content, sequenceChecks);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(7);
+      expect(errors[0].errorDetail).toBe(
+        "MMD-UNDECLARED-PARTICIPANT: Participant 'Alcie' is not declared with participant or actor. Did you mean 'Alice'?"
+      );
+    });
+
+    it('should require declarations with requireDeclaredParticipants', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+\`\`\`
+`;
+      expect(await runLint(content, sequenceChecks)).toHaveLength(0);
+      const errors = await runLint(content, { requireDeclaredParticipants: true });
+      expect(errors).toHaveLength(2);
+      expect(errors[0].errorDetail).toContain("Participant 'Alice' is not declared");
+      expect(errors[1].errorDetail).toContain("Participant 'Bob' is not declared");
+    });
+
+    it('should report notes over actors that appear nowhere else', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+  Note over Alise: Typo
+\`\`\`
+`;
+      const errors = await runLint(content, sequenceChecks);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(5);
+      expect(errors[0].errorDetail).toBe(
+        "MMD-UNKNOWN-NOTE-ACTOR: Note refers to 'Alise', which appears in no message or declaration. Did you mean 'Alice'?"
+      );
+      expect(errors[0].errorRange).toEqual([13, 5]);
+    });
+  });
+
+  describe('complexity limits', () => {
+    it('should pass diagrams within the limits', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  B --> C
+\`\`\`
+`;
+      const errors = await runLint(content, { maxNodes: 3, maxEdges: 2, maxLines: 3 });
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should report the node limit at the diagram header', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  B --> C
+  C --> D
+\`\`\`
+`;
+      const errors = await runLint(content, { maxNodes: 2 });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(3);
+      expect(errors[0].errorDetail).toBe(
+        'MMD-TOO-MANY-NODES: Diagram has 4 nodes, exceeding maxNodes (2) by 2'
+      );
+      expect(errors[0].errorRange).toEqual([1, 9]);
+    });
+
+    it('should count edges of class diagrams', async () => {
+      const content = `
+\`\`\`mermaid
+classDiagram
+  Animal <|-- Duck
+  Animal <|-- Fish
+  Animal <|-- Zebra
+\`\`\`
+`;
+      const errors = await runLint(content, { maxEdges: 2 });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toBe(
+        'MMD-TOO-MANY-EDGES: Diagram has 3 edges, exceeding maxEdges (2) by 1'
+      );
+    });
+
+    it('should measure subgraph nesting depth', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart TB
+  subgraph outer
+    subgraph middle
+      subgraph inner
+        A --> B
+      end
+    end
+  end
+\`\`\`
+`;
+      const errors = await runLint(content, { maxSubgraphDepth: 2 });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toBe(
+        'MMD-SUBGRAPH-TOO-DEEP: Diagram has 3 levels of nested subgraphs, exceeding maxSubgraphDepth (2) by 1'
+      );
+    });
+
+    it('should count sequence diagram participants', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+  Bob->>Carol: Hi
+\`\`\`
+`;
+      const errors = await runLint(content, { maxParticipants: 2 });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toBe(
+        'MMD-TOO-MANY-PARTICIPANTS: Diagram has 3 participants, exceeding maxParticipants (2) by 1'
+      );
+    });
+
+    it('should check line count and text size in basic mode', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  B --> C
+\`\`\`
+`;
+      const errors = await runLint(content, { basic: true, maxLines: 2 });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toBe(
+        'MMD-TOO-MANY-LINES: Diagram has 3 lines, exceeding maxLines (2) by 1'
+      );
+
+      const sized = await runLint(content, { basic: true, maxTextSize: 30 });
+      expect(sized).toHaveLength(1);
+      expect(sized[0].errorDetail).toBe(
+        'MMD-TEXT-TOO-LARGE: Diagram has 32 characters, exceeding maxTextSize (30) by 2'
+      );
+    });
+
+    it("should apply mermaid's text size limit by default", async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  %% ${'x'.repeat(50000)}
+  A --> B
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toBe(
+        'MMD-TEXT-TOO-LARGE: Diagram has 50028 characters, exceeding maxTextSize (50000) by 28'
+      );
+    });
+
+    it("should apply mermaid's flowchart edge limit by default", async () => {
+      const edges = Array.from({ length: 600 }, (_, index) => `  N${index} --> N${index + 1}`);
+      const content = `\`\`\`mermaid\nflowchart LR\n${edges.join('\n')}\n\`\`\`\n`;
+
+      const errors = await runLint(content);
+      expect(errors.map((error) => error.errorDetail)).toEqual([
+        'MMD-TOO-MANY-EDGES: Diagram has 600 edges, exceeding maxEdges (500) by 100',
+      ]);
+      expect(await runLint(content, { maxEdges: 1000 })).toHaveLength(0);
+    });
+
+    it('should refuse diagrams larger than maxInputSize without parsing them', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
+`;
+      for (const basic of [false, true]) {
+        const errors = await runLint(content, { basic, maxInputSize: 20 });
+        expect(errors).toHaveLength(1);
+        expect(errors[0].lineNumber).toBe(3);
+        expect(errors[0].errorDetail).toBe(
+          'MMD-INPUT-TOO-LARGE: Diagram has 24 characters, more than the 20 allowed. It was not validated'
+        );
+      }
+
+      const disabled = `
+\`\`\`mermaid
+%% mermaid-lint-disable size
+flowchart LR
+  A --> [B
+\`\`\`
+`;
+      expect(await runLint(disabled, { maxInputSize: 20 })).toHaveLength(0);
+    });
+
+    it('should honor suppression directives', async () => {
+      const content = `
+\`\`\`mermaid
+%% mermaid-lint-disable complexity
+flowchart LR
+  A --> B
+  B --> C
+\`\`\`
+`;
+      const errors = await runLint(content, { maxNodes: 2, maxLines: 2 });
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('suppression directives', () => {
+    it('should skip a diagram disabled by a directive', async () => {
+      const content = `
+\`\`\`mermaid
+%% mermaid-lint-disable
+flowchart LR
+  A --> [B
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should skip fences with lint=false in the info string', async () => {
+      const content = `
+\`\`\`mermaid {lint=false}
+flowchart LR
+  A --> [B
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should silence the next line for the named check', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  %% mermaid-lint-disable-next-line syntax
+  B --> [C
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should keep reporting checks that are not named', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  %% mermaid-lint-disable-next-line some-other-check
+  B --> [C
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should only silence the region between disable and enable', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  %% mermaid-lint-disable
+  A --> [B
+  %% mermaid-lint-enable
+  C --> D
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  %% mermaid-lint-disable
+  A --> B
+  %% mermaid-lint-enable
+  C --> [D
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(15);
+    });
+
+    it('should honor directives in basic mode', async () => {
+      const content = `
+\`\`\`mermaid
+%% mermaid-lint-disable-next-line syntax
+A --> B
+\`\`\`
+`;
+      const errors = await runLint(content, { basic: true });
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('multiple code blocks', () => {
+    it('should validate all mermaid blocks in document', async () => {
+      const content = `
+# Diagram 1
+
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+
+# Diagram 2
+
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should report errors from multiple blocks', async () => {
+      const content = `
+\`\`\`mermaid
+
+\`\`\`
+
+\`\`\`mermaid
+
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors.length).toBe(2);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should work with basic mode enabled', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+`;
+      const errors = await runLint(content, { basic: true });
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should detect empty block in basic mode', async () => {
+      const content = `
+\`\`\`mermaid
+
+\`\`\`
+`;
+      const errors = await runLint(content, { basic: true });
+      expect(errors.length).toBeGreaterThan(0);
+    });
+
+    it('should accept diagram types in allowedTypes by family', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+
+\`\`\`mermaid
+graph TD
+  A --> B
+\`\`\`
+`;
+      const errors = await runLint(content, { allowedTypes: ['flowchart'] });
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should reject diagram types missing from allowedTypes', async () => {
+      const content = `
+\`\`\`mermaid
+%% the header is on the next line
+sequenceDiagram
+  Alice->>Bob: Hello
+\`\`\`
+`;
+      const errors = await runLint(content, { allowedTypes: ['flowchart', 'class'] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(4);
+      expect(errors[0].errorDetail).toBe(
+        'MMD-TYPE-NOT-ALLOWED: Diagram type "sequence" is not allowed. Allowed types: flowchart, class'
+      );
+      expect(errors[0].errorRange).toEqual([1, 15]);
+    });
+
+    it('should reject diagram types in disallowedTypes', async () => {
+      const content = `
+\`\`\`mermaid
+kanban
+  todo[Todo]
+    task1[Write docs]
+\`\`\`
+`;
+      const errors = await runLint(content, { disallowedTypes: ['kanban'] });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toContain('"kanban"');
+    });
+
+    it('should reject beta diagram types with disallowBeta', async () => {
+      const content = `
+\`\`\`mermaid
+packet-beta
+  0-15: "Source Port"
+  16-31: "Destination Port"
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+`;
+      const errors = await runLint(content, { disallowBeta: true });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(3);
+      expect(errors[0].errorDetail).toContain('"packet" is a beta diagram type');
+    });
+
+    it('should report render errors that parsing misses in render mode', async () => {
+      const content = `
+\`\`\`mermaid
+gantt
+  dateFormat YYYY-MM-DD
+  section Build
+  Compile :a1, 2024-13-45, 3d
+\`\`\`
+`;
+      expect(await runLint(content)).toHaveLength(0);
+
+      const errors = await runLint(content, { mode: 'render' });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(6);
+      expect(errors[0].errorRange).toEqual([16, 10]);
+      expect(errors[0].errorDetail).toContain('Invalid date:2024-13-45');
+    });
+
+    it('should pass valid diagrams in render mode', async () => {
+      const content = `
+\`\`\`mermaid
+classDiagram
+  Order "1" --> "*" LineItem : contains
+\`\`\`
+
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+\`\`\`
+
+\`\`\`mermaid
+mindmap
+  root
+    child
+\`\`\`
+`;
+      const errors = await runLint(content, { mode: 'render' });
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should validate against the mermaid build given by mermaidModule', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+\`\`\`
+`;
+      expect(await runLint(content)).toHaveLength(0);
+
+      const errors = await runLint(content, {
+        mermaidModule: './tests/fixtures/legacy-mermaid',
+      });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toContain('Unknown diagram type: "sequenceDiagram"');
+    });
+
+    it('should validate with a mermaidModule that cannot list its diagrams', async () => {
+      const config = { mermaidModule: './tests/fixtures/no-metadata-mermaid' };
+      const valid = await runLint(
+        `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+\`\`\`
+`,
+        config
+      );
+      expect(valid).toHaveLength(0);
+
+      const misspelled = await runLint(
+        `
+\`\`\`mermaid
+sequenceDiagrm
+  Alice->>Bob: Hello
+\`\`\`
+`,
+        config
+      );
+      expect(misspelled).toHaveLength(1);
+      expect(misspelled[0].errorDetail).toContain("Did you mean 'sequenceDiagram'?");
+    });
+
+    it('should report a mermaidModule that cannot be loaded', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+`;
+      const errors = await runLint(content, { mermaidModule: './tests/fixtures/missing-mermaid' });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toContain(
+        "Cannot load mermaid module './tests/fixtures/missing-mermaid'"
+      );
+    });
+
+    it('should report which of the mermaidModules reject a diagram', async () => {
+      const content = `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  A -->
+\`\`\`
+`;
+      const errors = await runLint(content, {
+        mermaidModules: ['mermaid', './tests/fixtures/legacy-mermaid'],
+      });
+      expect(errors).toHaveLength(2);
+      expect(errors[0].lineNumber).toBe(3);
+      expect(errors[0].errorDetail).toMatch(/\(rejected by legacy-mermaid 9\.0\.0\)$/);
+      expect(errors[1].lineNumber).toBe(14);
+      expect(errors[1].errorDetail).toMatch(
+        /\(rejected by mermaid [\d.]+, legacy-mermaid 9\.0\.0\)$/
+      );
+    });
+  });
+
+  describe('HTML embedded mermaid', () => {
+    it('should validate mermaid in pre tag with class', async () => {
+      const content = `
+<pre class="mermaid">
+flowchart LR
+  A --> B
+</pre>
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should validate mermaid in div tag with class', async () => {
+      const content = `
+<div class="mermaid">
+flowchart LR
+  A --> B
+</div>
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should validate mermaid in code tag with language-mermaid class', async () => {
+      const content = `
+<code class="language-mermaid">
+flowchart LR
+  A --> B
+</code>
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should detect errors in HTML mermaid blocks', async () => {
+      const content = `
+<pre class="mermaid">
+flowchart LR
+  A --> [B
+</pre>
+`;
+      const errors = await runLint(content);
+      expect(errors.length).toBeGreaterThan(0);
+      expect(errors[0].errorDetail).toContain('bracket');
+    });
+
+    it('should detect empty HTML mermaid blocks', async () => {
+      const content = `
+<div class="mermaid">
+</div>
+`;
+      const errors = await runLint(content);
+      expect(errors.length).toBeGreaterThan(0);
+      expect(errors[0].errorDetail).toContain('Empty Mermaid diagram');
+    });
+
+    it('should handle mermaid class with other classes', async () => {
+      const content = `
+<pre class="diagram mermaid syntax-highlight">
+flowchart LR
+  A --> B
+</pre>
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should handle HTML entities in mermaid code', async () => {
+      const content = `
+<pre class="mermaid">
+flowchart LR
+  A --&gt; B
+</pre>
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should validate multiple HTML mermaid blocks', async () => {
+      const content = `
+<div class="mermaid">
+flowchart LR
+  A --> B
+</div>
+
+<pre class="mermaid">
+sequenceDiagram
+  Alice->>Bob: Hello
+</pre>
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should report errors from multiple HTML blocks', async () => {
+      const content = `
+<div class="mermaid">
+</div>
+
+<pre class="mermaid">
+</pre>
+`;
+      const errors = await runLint(content);
+      expect(errors.length).toBe(2);
+    });
+
+    it('should ignore non-mermaid HTML blocks', async () => {
+      const content = `
+<pre class="javascript">
+const x = 1;
+</pre>
+
+<div class="diagram">
+some content
+</div>
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should validate mixed fence and HTML blocks', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+
+<div class="mermaid">
+sequenceDiagram
+  Alice->>Bob: Hello
+</div>
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('platform profiles', () => {
+    it('should reject diagram types the platform does not render', async () => {
+      const content = `
+\`\`\`mermaid
+mindmap
+  root
+    child
+\`\`\`
+`;
+      expect(await runLint(content)).toHaveLength(0);
+
+      const errors = await runLint(content, { profile: 'gitlab' });
+      expect(errors).toHaveLength(0);
+
+      const customErrors = await runLint(content, {
+        profile: { extends: 'gitlab', diagramTypes: ['flowchart', 'sequence'] },
+      });
+      expect(customErrors).toHaveLength(1);
+      expect(customErrors[0].lineNumber).toBe(3);
+      expect(customErrors[0].errorDetail).toContain(
+        'Diagram type "mindmap" is not supported by GitLab. Supported types: flowchart, sequence'
+      );
+    });
+
+    it('should let allowedTypes override the profile diagram types', async () => {
+      const content = `
+::: mermaid
+mindmap
+  root
+:::
+`;
+      const errors = await runLint(content, { profile: 'azure-devops' });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toContain('not supported by Azure DevOps');
+
+      const allowed = await runLint(content, {
+        profile: 'azure-devops',
+        allowedTypes: ['mindmap'],
+      });
+      expect(allowed).toHaveLength(0);
+    });
+
+    it('should only lint the blocks the platform recognizes', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
+
+::: mermaid
+flowchart LR
+  C --> [D
+:::
+
+<pre class="mermaid">
+flowchart LR
+  E --> [F
+</pre>
+`;
+      expect((await runLint(content)).map((error) => error.lineNumber)).toEqual([4, 14]);
+      expect(await runLint(content, { profile: 'github' })).toHaveLength(1);
+
+      const errors = await runLint(content, { profile: 'azure-devops' });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(9);
+      expect(errors[0].errorRange).toEqual([9, 1]);
+    });
+
+    it('should report config the platform ignores', async () => {
+      const content = `
+::: mermaid
+%%{init: {"theme": "forest"}}%%
+flowchart LR
+  A --> B
+:::
+`;
+      expect(
+        await runLint(content, { profile: { extends: 'azure-devops', honorsConfig: true } })
+      ).toHaveLength(0);
+
+      const errors = await runLint(content, { profile: 'azure-devops' });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(3);
+      expect(errors[0].errorDetail).toContain('Azure DevOps ignores %%{init}%% directives');
+    });
+
+    it('should throw for unknown profiles', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+`;
+      await expect(runLint(content, { profile: 'bitbucket' })).rejects.toThrow(
+        'Unknown profile "bitbucket"'
+      );
+    });
+  });
+
+  describe('validation cache', () => {
+    it('should reuse cached results wherever the block moves', async () => {
+      const cacheDirectory = mkdtempSync(join(tmpdir(), 'mermaid-cache-'));
+      const config = { cache: true, cacheDirectory };
+      const diagram = `\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\``;
+
+      const errors = await runLint(`\n${diagram}\n`, config);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(4);
+      const [entry] = readdirSync(cacheDirectory);
+      expect(readdirSync(cacheDirectory)).toHaveLength(1);
+
+      // A cache hit skips validation: the stored result is reported as is
+      const path = join(cacheDirectory, entry);
+      writeFileSync(
+        path,
+        readFileSync(path, 'utf8').replace(/"detail":"[^"]*"/, '"detail":"cached"')
+      );
+      const moved = await runLint(`\n# Title\n\n${diagram}\n`, config);
+      expect(moved).toHaveLength(1);
+      expect(moved[0].lineNumber).toBe(6);
+      expect(moved[0].errorDetail).toBe('MMD-UNCLOSED-BRACKET: cached');
+
+      // Another config is another cache entry
+      expect(await runLint(`\n${diagram}\n`, { ...config, mode: 'render' })).toHaveLength(1);
+      expect(readdirSync(cacheDirectory)).toHaveLength(2);
+      clearCache(cacheDirectory);
+    });
+
+    it('should evict the least recently used entries', async () => {
+      const cacheDirectory = mkdtempSync(join(tmpdir(), 'mermaid-cache-'));
+      const content = ['A', 'B', 'C', 'D', 'E']
+        .map((node) => `\`\`\`mermaid\nflowchart LR\n  ${node} --> Z\n\`\`\``)
+        .join('\n\n');
+
+      const errors = await runLint(content, { cache: true, cacheDirectory, cacheMaxEntries: 3 });
+      expect(errors).toHaveLength(0);
+      expect(readdirSync(cacheDirectory).length).toBeLessThanOrEqual(3);
+      clearCache(cacheDirectory);
+    });
+
+    it('should not count replaced entries towards the limit', () => {
+      const options = { directory: mkdtempSync(join(tmpdir(), 'mermaid-cache-')), maxEntries: 3 };
+      for (let write = 0; write < 5; write++) {
+        writeCache(options, 'a', null);
+      }
+      writeCache(options, 'b', null);
+      writeCache(options, 'c', null);
+      expect(readdirSync(options.directory)).toHaveLength(3);
+      clearCache(options.directory);
+    });
+
+    it('should not cache worker and module load failures', async () => {
+      const cacheDirectory = mkdtempSync(join(tmpdir(), 'mermaid-cache-'));
+      const content = '```mermaid\nflowchart LR\n  A --> B\n```\n';
+
+      const crashed = await runLint(content, {
+        cache: true,
+        cacheDirectory,
+        workers: 1,
+        mermaidModule: './tests/fixtures/exiting-mermaid',
+      });
+      await closeWorkerPool();
+      expect(crashed[0].errorDetail).toMatch(/^MMD-WORKER-FAILED: /);
+
+      const missing = await runLint(content, {
+        cache: true,
+        cacheDirectory,
+        mermaidModule: './tests/fixtures/missing-mermaid',
+      });
+      expect(missing[0].errorDetail).toMatch(/^MMD-MODULE-LOAD-FAILED: /);
+      expect(readdirSync(cacheDirectory)).toHaveLength(0);
+
+      // The next run validates again instead of replaying the failure
+      expect(await runLint(content, { cache: true, cacheDirectory })).toHaveLength(0);
+      clearCache(cacheDirectory);
+    }, 60000);
+
+    it('should clear the cache', async () => {
+      const cacheDirectory = mkdtempSync(join(tmpdir(), 'mermaid-cache-'));
+      await runLint('```mermaid\nflowchart LR\n  A --> B\n```\n', { cache: true, cacheDirectory });
+      expect(readdirSync(cacheDirectory)).toHaveLength(1);
+
+      clearCache(cacheDirectory);
+      expect(() => readdirSync(cacheDirectory)).toThrow();
+    });
+
+    it('should key the bundled mermaid by its own version from any directory', () => {
+      const { version } = JSON.parse(
+        readFileSync(join('node_modules', 'mermaid', 'package.json'), 'utf8')
+      ) as { version: string };
+      const cwd = process.cwd();
+      process.chdir(tmpdir());
+      try {
+        expect(resolveBundledMermaid().label).toBe(`mermaid ${version}`);
+      } finally {
+        process.chdir(cwd);
+      }
+    });
+  });
+
+  describe('worker threads', () => {
+    // Each worker loads its own jsdom and mermaid
+    const WorkerTestTimeout = 60000;
+
+    it('should fail queued tasks when workers keep failing to start', async () => {
+      const script = new URL('./fixtures/failing-worker.mjs', import.meta.url);
+      const tasks = [runInWorker(script, 1, 'first'), runInWorker(script, 1, 'second')];
+
+      for (const task of tasks) {
+        await expect(task).rejects.toThrow('Worker failed at import');
+      }
+      await closeWorkerPool();
+    });
+
+    it(
+      'should report the same errors and fixes as the main thread',
+      async () => {
+        const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
+
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+  Bob-->Alice Hi
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  subgraph one
+    A --> B
+\`\`\`
+`;
+        const expected = await runLint(content);
+        const errors = await runLint(content, { workers: 2 });
+        expect(errors).toHaveLength(3);
+        expect(errors).toEqual(expected);
+        await closeWorkerPool();
+      },
+      WorkerTestTimeout
+    );
+
+    it(
+      'should keep working after the pool is closed',
+      async () => {
+        const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
+`;
+        const errors = await runLint(content, { workers: 1 });
+        expect(errors).toHaveLength(1);
+        await closeWorkerPool();
+        expect(await runLint(content, { workers: 1 })).toHaveLength(1);
+        await closeWorkerPool();
+      },
+      WorkerTestTimeout
+    );
+
+    it(
+      'should report diagrams that exceed timeoutMs and validate the rest',
+      async () => {
+        const content = `
+\`\`\`mermaid
+flowchart LR
+  %% hang
+  A --> B
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
+`;
+        const errors = await runLint(content, {
+          mermaidModule: './tests/fixtures/slow-mermaid',
+          timeoutMs: 2000,
+        });
+        await closeWorkerPool();
+        expect(errors).toHaveLength(2);
+        expect(errors[0].lineNumber).toBe(3);
+        expect(errors[0].errorDetail).toBe(
+          'MMD-TIMEOUT: Mermaid validation timed out after 2000 ms'
+        );
+        expect(errors[1].lineNumber).toBe(10);
+      },
+      WorkerTestTimeout
+    );
+  });
+
+  describe('error codes', () => {
+    it('should prefix every error with a code from the catalog', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
+
+\`\`\`mermaid
+flowchar LR
+  A --> B
+\`\`\`
+
+\`\`\`mermaid
+%%{init: {"them": "dark"}}%%
+flowchart LR
+  A --> B
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  classDef unused fill:#f00
+\`\`\`
+
+\`\`\`mermaid
+\`\`\`
+`;
+      const errors = await runLint(content);
+      const codes = errors.map((error) => error.errorDetail?.split(':')[0]);
+      expect(codes).toEqual([
+        'MMD-UNCLOSED-BRACKET',
+        'MMD-UNKNOWN-DIAGRAM-TYPE',
+        'MMD-UNKNOWN-CONFIG-KEY',
+        'MMD-UNUSED-CLASSDEF',
+        'MMD-EMPTY',
+      ]);
+      for (const code of codes) {
+        expect(ERROR_CODES[code ?? '']).toBeDefined();
+      }
+    });
+
+    it('should describe every code with an example', () => {
+      for (const [code, info] of Object.entries(ERROR_CODES)) {
+        expect(code).toMatch(/^(MMD|KTX)(-[A-Z]+)+$/);
+        expect(info.description).not.toBe('');
+        expect(typeof info.example).toBe('string');
+      }
+    });
+
+    it('should not report codes listed in ignoreCodes', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  style C fill:#ff0
+  classDef unused fill:#f00
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(2);
+      expect(errors[0].errorDetail).toMatch(/^MMD-UNDEFINED-REFERENCE: /);
+
+      const ignored = await runLint(content, { ignoreCodes: ['MMD-UNDEFINED-REFERENCE'] });
+      expect(ignored).toHaveLength(1);
+      expect(ignored[0].errorDetail).toMatch(/^MMD-UNUSED-CLASSDEF: /);
+
+      const syntax = await runLint('```mermaid\nflowchart LR\n  A --> [B\n```\n', {
+        ignoreCodes: ['MMD-UNCLOSED-BRACKET'],
+      });
+      expect(syntax).toHaveLength(0);
+    });
+
+    it('should accept codes in suppression directives', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  %% mermaid-lint-disable-next-line MMD-UNUSED-CLASSDEF
+  classDef unused fill:#f00
+\`\`\`
+`;
+      const errors = await runLint(content);
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('localized messages', () => {
+    it('should report messages and hints in Japanese with locale ja', async () => {
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
+
+\`\`\`mermaid
+\`\`\`
+`;
+      const errors = await runLint(content, { locale: 'ja' });
+      expect(errors).toHaveLength(2);
+      expect(errors[0].errorDetail).toBe(
+        'MMD-UNCLOSED-BRACKET: 角括弧が閉じられていません。閉じ括弧 ] を追加してノードの形を完成させてください: A[text]'
+      );
+      expect(errors[1].errorDetail).toBe(
+        'MMD-EMPTY: Mermaid の図が空です。図の種類（例: flowchart、sequenceDiagram）と内容を追加してください'
+      );
+    });
+
+    it('should localize messages in basic mode and in workers', async () => {
+      const basic = await runLint('```mermaid\n--> B\n```\n', { basic: true, locale: 'ja' });
+      expect(basic[0].errorDetail).toMatch(
+        /^MMD-MISSING-DIAGRAM-TYPE: 図の種類の宣言がありません。/
+      );
+
+      const worker = await runLint('```mermaid\nflowchar LR\n  A --> B\n```\n', {
+        locale: 'ja',
+        workers: 1,
+      });
+      await closeWorkerPool();
+      expect(worker[0].errorDetail).toMatch(
+        /^MMD-UNKNOWN-DIAGRAM-TYPE: 不明な図の種類です: "flowchar LR"。'flowchart' の誤りではありませんか？有効な種類: /
+      );
+    }, 60000);
+
+    it('should localize the messages of config, semantic and limit checks', async () => {
+      const content = `
+\`\`\`mermaid
+%%{init: {"themeVariable": {}}}%%
+flowchart LR
+  Start --> B
+  style Strat fill:#f00
+\`\`\`
+`;
+      const errors = await runLint(content, {
+        locale: 'ja',
+        maxNodes: 1,
+      });
+      expect(errors.map((error) => error.errorDetail)).toEqual([
+        "MMD-UNKNOWN-CONFIG-KEY: 不明な設定キー 'themeVariable' です。'themeVariables' の誤りではありませんか？",
+      ]);
+
+      const semantic = await runLint(content.replace(/^%%.*\n/m, ''), {
+        locale: 'ja',
+        maxNodes: 1,
+      });
+      expect(semantic.map((error) => error.errorDetail)).toEqual([
+        'MMD-TOO-MANY-NODES: 図にノードが 2 個あり、maxNodes（1）を 1 超えています',
+        "MMD-UNDEFINED-REFERENCE: style が参照するノード 'Strat' は定義されていません。'Start' の誤りではありませんか？",
+      ]);
+    });
+
+    it('should localize the messages of the accessibility, style and security rules', async () => {
+      const content = '```mermaid\nflowchart TD\n  A --> B\n```\n';
+      const accessibility = await runAccessibilityLint(content, { locale: 'ja' });
+      expect(accessibility[0].errorDetail).toMatch(
+        /^MMD-ACC-TITLE: 図に accTitle も title もありません。/
+      );
+      const style = await runStyleLint(content, { direction: 'TB', locale: 'ja' });
+      expect(style[0].errorDetail).toBe(
+        "MMD-STYLE-DIRECTION: 上から下への向きには 'TD' ではなく 'TB' を使ってください"
+      );
+      const security = await runSecurityLint(
+        '```mermaid\nflowchart TD\n  A --> B\n  click A "javascript:alert(1)"\n```\n',
+        { locale: 'ja' }
+      );
+      expect(security[0].errorDetail).toMatch(
+        /^MMD-UNSAFE-URL: URL スキーム 'javascript:' は許可されていません。/
+      );
+    });
+
+    it('should apply a catalog file over the locale and fall back to English', async () => {
+      const messagesFile = join(mkdtempSync(join(tmpdir(), 'mermaid-messages-')), 'de.json');
+      writeFileSync(
+        messagesFile,
+        JSON.stringify({
+          detail: '{message} – {hint}',
+          'MMD-UNCLOSED-BRACKET': 'Eckige Klammer nicht geschlossen',
+        })
+      );
+      const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
+`;
+      const errors = await runLint(content, { locale: 'de', messagesFile });
+      expect(errors[0].errorDetail).toBe(
+        'MMD-UNCLOSED-BRACKET: Eckige Klammer nicht geschlossen – Add closing ] to complete the node shape: A[text]'
+      );
+    });
+
+    it('should throw for unknown locales and invalid catalog files', async () => {
+      const content = '```mermaid\nflowchart LR\n  A --> B\n```\n';
+      await expect(runLint(content, { locale: 'de' })).rejects.toThrow('Unknown locale "de"');
+
+      const messagesFile = join(mkdtempSync(join(tmpdir(), 'mermaid-messages-')), 'bad.json');
+      writeFileSync(messagesFile, JSON.stringify({ 'MMD-EMPTY': 1 }));
+      await expect(runLint(content, { messagesFile })).rejects.toThrow(
+        'must be a JSON object of strings'
+      );
+    });
+
+    it('should have a Japanese entry for every English one', () => {
+      expect(Object.keys(MESSAGE_CATALOGS.ja).sort()).toEqual(
+        Object.keys(MESSAGE_CATALOGS.en).sort()
+      );
+    });
+  });
+
+  describe('did-you-mean suggestions', () => {
+    it('should suggest the closest registered diagram type', async () => {
+      const flowchart = await runLint('```mermaid\nflowchar LR\n  A --> B\n```\n');
+      expect(flowchart[0].errorDetail).toMatch(
+        /^MMD-UNKNOWN-DIAGRAM-TYPE: Unknown diagram type: "flowchar LR"\. Did you mean 'flowchart'\? Valid types: /
+      );
+
+      const sequence = await runLint('```mermaid\nsequencediagram\n  Alice->>Bob: Hi\n```\n');
+      expect(sequence[0].errorDetail).toContain("Did you mean 'sequenceDiagram'?");
+    });
+
+    it('should list the diagram types mermaid has registered', async () => {
+      const errors = await runLint('```mermaid\nnotADiagram\n```\n');
+      const types = errors[0].errorDetail?.split('Valid types: ')[1]?.split(', ');
+      expect(types).toEqual(
+        expect.arrayContaining([
+          'architecture-beta',
+          'block-beta',
+          'C4Context',
+          'flowchart',
+          'graph',
+          'journey',
+          'quadrantChart',
+          'requirementDiagram',
+          'sankey-beta',
+          'sequenceDiagram',
+          'xychart-beta',
+        ])
+      );
+      expect(types).not.toContain('error');
+      expect(errors[0].errorDetail).not.toContain('Did you mean');
+    });
+
+    it('should suggest misspelled block keywords', async () => {
+      const subgraph = await runLint(
+        '```mermaid\nflowchart LR\n  subgrpah one\n    A --> B\n  end\n```\n'
+      );
+      expect(subgraph[0].errorDetail).toContain("Did you mean 'subgraph'?");
+
+      const end = await runLint(
+        '```mermaid\nflowchart LR\n  subgraph one\n    A --> B\n  edn\n```\n'
+      );
+      expect(end[0].errorDetail).toBe(
+        `MMD-UNCLOSED-BLOCK: Unclosed block. Did you mean 'end'? Add "end" to close subgraph, loop, alt, opt, par, critical, rect, or state block`
+      );
+
+      const loop = await runLint(
+        '```mermaid\nsequenceDiagram\n  lop every minute\n    Bob->>Alice: Hi\n  end\n```\n'
+      );
+      expect(loop[0].errorDetail).toContain("Did you mean 'loop'?");
+    });
+
+    it('should not suggest keywords for names or for other diagram types', async () => {
+      const names = await runLint('```mermaid\nsequenceDiagram\n  Bob Alice\n```\n');
+      expect(names[0].errorDetail).not.toContain('Did you mean');
+
+      const pie = await runLint('```mermaid\npie\n  edn\n```\n');
+      expect(pie[0]?.errorDetail ?? '').not.toContain('Did you mean');
+    });
+
+    it('should not suggest names for short words that differ in most letters', async () => {
+      const errors = await runLint(
+        '```mermaid\nflowchart LR\n  Box --> Car\n  style Log fill:#f00\n```\n'
+      );
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toBe(
+        "MMD-UNDEFINED-REFERENCE: Node 'Log' referenced by style is not defined"
+      );
+    });
+  });
+
+  describe('basic mode structure', () => {
+    const runBasic = (code: string): Promise<LintError[]> =>
+      runLint(`\`\`\`mermaid\n${code}\n\`\`\`\n`, { basic: true });
+
+    it('should pass valid diagrams', async () => {
+      const diagrams = [
+        'flowchart LR\n  A[Square] --> B(Round) --> C{Diamond} --> D((Circle))\n  E[[Sub]] --- F([Stadium]) --- G[(Db)] --- H(((Double)))\n  I>Flag] -.-> J[/Lean/] ==> K[\\Inv\\] --> L{{Hex}}',
+        'flowchart TD\n  A -->|text (with) [brackets| B\n  A -- "quoted (text" --> C\n  D["`**Markdown**\n  over (lines`"]',
+        'flowchart LR\n  accTitle: Flow (draft\n  subgraph one [One]\n    A --> B\n  end\n  click A callback()',
+        'sequenceDiagram\n  Alice->>Bob: Hi (there\n  loop Every minute\n    alt ok\n      Bob->>Alice: "yes\n    else\n      Bob->>Alice: no]\n    end\n  end',
+        'stateDiagram-v2\n  state Outer {\n    state Inner {\n      A --> B\n    }\n  }',
+        '---\ntitle: Pets\n---\n%%{init: {"theme": "dark"}}%%\npie\n  "Dogs" : 3',
+      ];
+      for (const diagram of diagrams) {
+        expect(await runBasic(diagram), diagram).toEqual([]);
+      }
+    });
+
+    it('should report unknown diagram types like full mode', async () => {
+      const [basic] = await runBasic('flowchar LR\n  A --> B');
+      const [full] = await runLint('```mermaid\nflowchar LR\n  A --> B\n```\n');
+      expect(basic.errorDetail).toBe(full.errorDetail);
+
+      const [unknown] = await runBasic('foo bar');
+      expect(unknown.errorDetail).toMatch(
+        /^MMD-UNKNOWN-DIAGRAM-TYPE: Unknown diagram type: "foo bar"\. Valid types: /
+      );
+    });
+
+    it('should report shapes and quotes not closed on their line', async () => {
+      const [bracket] = await runBasic('flowchart LR\n  A[Start --> B\n  B --> C');
+      expect(bracket.lineNumber).toBe(3);
+      expect(bracket.errorRange).toEqual([4, 1]);
+      expect(bracket.errorDetail).toBe(
+        'MMD-UNCLOSED-BRACKET: Unclosed square bracket. Add closing ] to complete the node shape: A[text]'
+      );
+
+      const [stadium] = await runBasic('flowchart LR\n  A --> B([Stadium)');
+      expect(stadium.errorDetail).toMatch(/^MMD-UNEXPECTED-CHARACTER: Unexpected character "\)"/);
+
+      const [cylinder] = await runBasic('flowchart LR\n  A --> B[(Db');
+      expect(cylinder.errorDetail).toMatch(/^MMD-UNCLOSED-CYLINDER: /);
+      expect(cylinder.errorRange).toEqual([10, 2]);
+
+      const [quote] = await runBasic('flowchart LR\n  A["Start] --> B');
+      expect(quote.errorDetail).toMatch(/^MMD-UNEXPECTED-CHARACTER: Unexpected character """/);
+      expect(quote.errorRange).toEqual([5, 1]);
+
+      const [stray] = await runBasic('flowchart LR\n  A --> B]');
+      expect(stray.errorRange).toEqual([10, 1]);
+    });
+
+    it('should report blocks without end or closing brace', async () => {
+      const [subgraph] = await runBasic('flowchart LR\n  subgraph one\n    A --> B\n  edn');
+      expect(subgraph.lineNumber).toBe(3);
+      expect(subgraph.errorDetail).toBe(
+        `MMD-UNCLOSED-BLOCK: Unclosed block. Did you mean 'end'? Add "end" to close subgraph, loop, alt, opt, par, critical, rect, or state block`
+      );
+
+      const [end] = await runBasic('flowchart LR\n  A --> B\n  end');
+      expect(end.lineNumber).toBe(4);
+      expect(end.errorDetail).toBe(
+        'MMD-UNEXPECTED-TOKEN: Syntax error: unexpected "end". Check the syntax near this position'
+      );
+
+      const [loop] = await runBasic('sequenceDiagram\n  loop Every minute\n    Alice->>Bob: Hi');
+      expect(loop.errorDetail).toMatch(/^MMD-UNCLOSED-BLOCK: /);
+      expect(loop.errorRange).toEqual([3, 4]);
+
+      const [state] = await runBasic('stateDiagram-v2\n  state Outer {\n    A --> B');
+      expect(state.lineNumber).toBe(3);
+      expect(state.errorDetail).toMatch(/^MMD-UNCLOSED-BLOCK: /);
+    });
+
+    it('should report malformed directives like full mode', async () => {
+      const code = '%%{init: {theme: dark}}%%\nflowchart LR\n  A --> B';
+      const [basic] = await runBasic(code);
+      const [full] = await runLint(`\`\`\`mermaid\n${code}\n\`\`\`\n`);
+      expect(basic.errorDetail).toMatch(/^MMD-INVALID-DIRECTIVE: /);
+      expect(basic.errorDetail).toBe(full.errorDetail);
+    });
+
+    it('should never load mermaid', async () => {
+      const errors = await runLint('```mermaid\nflowchart LR\n  A --> B\n```\n', {
+        basic: true,
+        mermaidModule: './does-not-exist/mermaid.mjs',
+      });
+      expect(errors).toEqual([]);
+    });
+  });
+
+  describe('user-defined hints', () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> [B
+\`\`\`
+`;
+
+    it('should merge token entries with the built-in message and hint', async () => {
+      const errors = await runLint(content, {
+        hints: {
+          tokens: { SQS: { hint: '{hint}. See https://wiki.example.com/mermaid#{token}' } },
+        },
+      });
+      expect(errors[0].errorDetail).toBe(
+        'MMD-UNCLOSED-BRACKET: Unclosed square bracket. Add closing ] to complete the node shape: A[text]. See https://wiki.example.com/mermaid#SQS'
+      );
+    });
+
+    it('should apply the first pattern matching the raw error text', async () => {
+      const errors = await runLint(content, {
+        hints: {
+          patterns: [
+            { pattern: 'no match here', message: 'never used' },
+            {
+              pattern: "got '(\\w+)'",
+              message: 'Team rule: {1} must be closed',
+              hint: 'Ask #docs',
+            },
+            { pattern: 'Expecting', message: 'never used either' },
+          ],
+        },
+      });
+      expect(errors[0].errorDetail).toBe(
+        'MMD-UNCLOSED-BRACKET: Team rule: SQS must be closed. Ask #docs'
+      );
+    });
+
+    it('should apply patterns to KaTeX errors', async () => {
+      const errors = await runKatexLint('$$\nx_{1\n$$\n', {
+        hints: { patterns: [{ pattern: "Expected '\\}'", hint: 'Close every brace' }] },
+      });
+      expect(errors[0].errorDetail).toMatch(
+        /^KTX-UNCLOSED-BRACE: Expected '}'.*\. Close every brace$/
+      );
+    });
+
+    it('should throw for invalid patterns', async () => {
+      await expect(runLint(content, { hints: { patterns: [{ pattern: '(' }] } })).rejects.toThrow(
+        "Invalid hint pattern '('"
+      );
+      await expect(
+        runKatexLint('$$\nx\n$$\n', { hints: { patterns: [{ pattern: '[' }] } })
+      ).rejects.toThrow("Invalid hint pattern '['");
+    });
+  });
+
+  describe('global DOM isolation', () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+
+\`\`\`mermaid
+flowchart LR
+  subgraph one
+    A --> B
+\`\`\`
+
+\`\`\`mermaid
+gantt
+  dateFormat YYYY-MM-DD
+  section A
+  Task :a1, 2024-01-01, 3d
+\`\`\`
+`;
+
+    async function lintWithAllRules(): Promise<LintError[]> {
+      const result = await lint({
+        strings: { test: content },
+        customRules: [
+          mermaidSyntaxRule,
+          mermaidAccessibilityRule,
+          mermaidStyleRule,
+          mermaidSecurityRule,
+        ],
+        config: { default: false, 'mermaid-syntax': { mode: 'render' } },
+      });
+      return result.test;
+    }
+
+    it('should not leave window, document or DOMParser on globalThis', async () => {
+      expect(globalThis.window).toBeUndefined();
+
+      const errors = await lintWithAllRules();
+      expect(errors.some((error) => error.fixInfo)).toBe(true);
+      expect(globalThis.window).toBeUndefined();
+      expect('window' in globalThis).toBe(false);
+      expect('document' in globalThis).toBe(false);
+      expect('DOMParser' in globalThis).toBe(false);
+    });
+
+    it("should restore the host's own window after linting", async () => {
+      const hostWindow = { host: true };
+      const g = globalThis as Record<string, unknown>;
+      g.window = hostWindow;
+      try {
+        const errors = await lintWithAllRules();
+        expect(errors.length).toBeGreaterThan(0);
+        expect(globalThis.window).toBe(hostWindow);
+        expect('document' in globalThis).toBe(false);
+      } finally {
+        Reflect.deleteProperty(g, 'window');
+      }
+    });
+
+    it('should retry creating the DOM after a failure', async () => {
+      vi.resetModules();
+      vi.doMock('jsdom', () => {
+        throw new Error("Cannot find package 'jsdom'");
+      });
+      const { withDom } = await import('../src/dom-scope.js');
+      try {
+        await expect(withDom(() => 'rendered')).rejects.toThrow();
+      } finally {
+        vi.doUnmock('jsdom');
+      }
+      expect(await withDom(() => typeof globalThis.document)).toBe('object');
+      expect('document' in globalThis).toBe(false);
+    });
+  });
+});
+
+// =============================================================================
+// Mermaid Accessibility Rule Tests
+// =============================================================================
+
+async function runAccessibilityLint(
+  content: string,
+  config: Record<string, unknown> = {}
+): Promise<LintError[]> {
+  const result = await lint({
+    strings: { test: content },
+    customRules: [mermaidAccessibilityRule],
+    config: {
+      default: false,
+      'mermaid-accessibility': config,
+    },
+  });
+  return result.test;
+}
+
+describe('mermaid-accessibility rule', () => {
+  it('should pass diagrams with accTitle and accDescr', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  accTitle: Checkout flow
+  accDescr: The cart leads to payment, then to the confirmation page
+  A --> B
+\`\`\`
+`;
+    const errors = await runAccessibilityLint(content);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should accept a frontmatter or diagram title and a multi-line accDescr', async () => {
+    const content = `
+\`\`\`mermaid
+---
+title: Pets
+---
+flowchart LR
+  accDescr {
+    Dogs outnumber cats
+  }
+  A --> B
+\`\`\`
+
+\`\`\`mermaid
+pie title Pets
+  accDescr: Dogs outnumber cats
+  "Dogs" : 3
+  "Cats" : 1
+\`\`\`
+`;
+    const errors = await runAccessibilityLint(content);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should report missing fields at the diagram header', async () => {
+    const content = `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+\`\`\`
+`;
+    const errors = await runAccessibilityLint(content);
+    expect(errors).toHaveLength(2);
+    expect(errors[0].lineNumber).toBe(3);
+    expect(errors[0].errorDetail).toBe(
+      'MMD-ACC-TITLE: Diagram has no accTitle or title. Add accTitle: <short title> for screen readers'
+    );
+    expect(errors[0].errorRange).toEqual([1, 15]);
+    expect(errors[1].errorDetail).toContain('Diagram has no accDescr');
+  });
+
+  it('should report empty and placeholder values', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  accTitle: TODO
+  accDescr: ...
+  A --> B
+\`\`\`
+`;
+    const errors = await runAccessibilityLint(content);
+    expect(errors).toHaveLength(2);
+    expect(errors[0].lineNumber).toBe(4);
+    expect(errors[0].errorDetail).toBe("MMD-ACC-TITLE: accTitle 'TODO' looks like a placeholder");
+    expect(errors[0].errorRange).toEqual([13, 4]);
+    expect(errors[1].lineNumber).toBe(5);
+    expect(errors[1].errorDetail).toBe("MMD-ACC-DESCR: accDescr '...' looks like a placeholder");
+  });
+
+  it('should enforce minDescriptionLength', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  accTitle: Checkout flow
+  accDescr: Cart flow
+  A --> B
+\`\`\`
+`;
+    const errors = await runAccessibilityLint(content, { minDescriptionLength: 20 });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].errorDetail).toBe(
+      'MMD-ACC-DESCR: accDescr is 9 characters long, shorter than minDescriptionLength (20)'
+    );
+    expect(errors[0].errorRange).toEqual([13, 9]);
+  });
+
+  it('should skip exempt diagram types', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+\`\`\`
+
+\`\`\`mermaid
+gitGraph
+  commit
+\`\`\`
+`;
+    const errors = await runAccessibilityLint(content, { exemptTypes: ['flowchart', 'gitGraph'] });
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should honor suppression directives', async () => {
+    const content = `
+\`\`\`mermaid
+%% mermaid-lint-disable accDescr
+flowchart LR
+  accTitle: Checkout flow
+  A --> B
+\`\`\`
+`;
+    const errors = await runAccessibilityLint(content);
+    expect(errors).toHaveLength(0);
+  });
+});
+
+// =============================================================================
+// Mermaid Style Rule Tests
+// =============================================================================
+
+async function runStyleLint(
+  content: string,
+  config: Record<string, unknown> = {}
+): Promise<LintError[]> {
+  const result = await lint({
+    strings: { test: content },
+    customRules: [mermaidStyleRule],
+    config: {
+      default: false,
+      'mermaid-style': config,
+    },
+  });
+  return result.test;
+}
+
+describe('mermaid-style rule', () => {
+  const content = `
+\`\`\`mermaid
+graph TD
+  A[Start] --> B["Done"]
+   B --- C
+\`\`\`
+`;
+
+  it('should not check anything without preferences', async () => {
+    const errors = await runStyleLint(content);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should report and fix the header keyword and direction', async () => {
+    const config = { headerKeyword: 'flowchart', direction: 'TB' };
+    const errors = await runStyleLint(content, config);
+    expect(errors).toHaveLength(2);
+    expect(errors[0].lineNumber).toBe(3);
+    expect(errors[0].errorDetail).toBe("MMD-STYLE-HEADER: Use 'flowchart' instead of 'graph'");
+    expect(errors[0].errorRange).toEqual([1, 5]);
+    expect(errors[1].errorDetail).toBe(
+      "MMD-STYLE-DIRECTION: Use 'TB' instead of 'TD' for top-to-bottom direction"
+    );
+    expect(errors[1].errorRange).toEqual([7, 2]);
+    expect(applyFixes(content, errors)).toContain('flowchart TB\n');
+  });
+
+  it('should report direction statements in subgraphs', async () => {
+    const subgraph = `
+\`\`\`mermaid
+flowchart LR
+  subgraph one
+    direction TD
+    A --> B
+  end
+\`\`\`
+`;
+    const errors = await runStyleLint(subgraph, { direction: 'TB' });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].lineNumber).toBe(5);
+    expect(errors[0].errorRange).toEqual([15, 2]);
+  });
+
+  it('should check indentation', async () => {
+    const errors = await runStyleLint(content, { indent: 2 });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].lineNumber).toBe(5);
+    expect(errors[0].errorDetail).toBe(
+      'MMD-STYLE-INDENT: Indentation of 3 spaces is not a multiple of 2'
+    );
+
+    const tabs = await runStyleLint('```mermaid\nflowchart LR\n\tA --> B\n```\n', { indent: 2 });
+    expect(tabs).toHaveLength(1);
+    expect(tabs[0].errorDetail).toBe('MMD-STYLE-INDENT: Indent with 2 spaces instead of tabs');
+  });
+
+  it('should require quoted labels', async () => {
+    const errors = await runStyleLint(content, { quotedLabels: true });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].lineNumber).toBe(4);
+    expect(errors[0].errorDetail).toBe(
+      'MMD-STYLE-QUOTED-LABELS: Label \'Start\' is not quoted. Use "Start"'
+    );
+    expect(errors[0].errorRange).toEqual([5, 5]);
+  });
+
+  it('should check arrows per diagram type', async () => {
+    const errors = await runStyleLint(content, { arrows: { flowchart: ['-->'] } });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].lineNumber).toBe(5);
+    expect(errors[0].errorDetail).toBe(
+      "MMD-STYLE-ARROW: Arrow '---' is not allowed in flowchart diagrams. Allowed arrows: -->"
+    );
+
+    const sequence = `
+\`\`\`mermaid
+sequenceDiagram
+  Alice->>Bob: Hello
+  Bob-->Alice: Hi
+\`\`\`
+`;
+    const sequenceErrors = await runStyleLint(sequence, {
+      arrows: { flowchart: ['-->'], sequence: ['->>', '-->>'] },
+    });
+    expect(sequenceErrors).toHaveLength(1);
+    expect(sequenceErrors[0].lineNumber).toBe(5);
+    expect(sequenceErrors[0].errorRange).toEqual([6, 3]);
+  });
+
+  it('should ignore arrows inside labels and link text', async () => {
+    const labels = `
+\`\`\`mermaid
+flowchart LR
+  A["a --- b"] -- text --> B
+  B -->|x --- y| C
+\`\`\`
+`;
+    const errors = await runStyleLint(labels, { arrows: { flowchart: ['-->'] } });
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should honor suppression directives', async () => {
+    const suppressed = `
+\`\`\`mermaid
+%% mermaid-lint-disable header
+graph LR
+  A --> B
+\`\`\`
+`;
+    const errors = await runStyleLint(suppressed, { headerKeyword: 'flowchart' });
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should not report codes listed in ignoreCodes', async () => {
+    const errors = await runStyleLint(content, {
+      headerKeyword: 'flowchart',
+      direction: 'TB',
+      ignoreCodes: ['MMD-STYLE-HEADER'],
+    });
+    expect(errors.map((error) => error.errorDetail?.split(':')[0])).toEqual([
+      'MMD-STYLE-DIRECTION',
+    ]);
+  });
+});
+
+// =============================================================================
+// Mermaid Security Rule Tests
+// =============================================================================
+
+async function runSecurityLint(
+  content: string,
+  config: Record<string, unknown> = {}
+): Promise<LintError[]> {
+  const result = await lint({
+    strings: { test: content },
+    customRules: [mermaidSecurityRule],
+    config: {
+      default: false,
+      'mermaid-security': config,
+    },
+  });
+  return result.test;
+}
+
+describe('mermaid-security rule', () => {
+  it('should pass diagrams with safe links', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  A["Docs<br>page"] --> B
+  click A href "https://example.com" "Open docs"
+  click B "/relative/path"
+\`\`\`
+`;
+    const errors = await runSecurityLint(content);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should report javascript: URLs in click, link and links statements', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  click A href "javascript:alert(1)"
+\`\`\`
+
+\`\`\`mermaid
+classDiagram
+  class Shape
+  link Shape "JavaScript:alert(1)"
+\`\`\`
+
+\`\`\`mermaid
+sequenceDiagram
+  participant Alice
+  links Alice: {"Home": "https://example.com", "Run": "javascript:void(0)"}
+  Alice->>Alice: Hi
+\`\`\`
+`;
+    const errors = await runSecurityLint(content);
+    expect(errors).toHaveLength(3);
+    expect(errors[0].lineNumber).toBe(5);
+    expect(errors[0].errorDetail).toBe(
+      "MMD-UNSAFE-URL: URL scheme 'javascript:' is not allowed. Allowed schemes: http, https, mailto"
+    );
+    expect(errors[0].errorRange).toEqual([17, 19]);
+    expect(errors[1].lineNumber).toBe(11);
+    expect(errors[2].lineNumber).toBe(17);
+    expect(errors[2].errorRange).toEqual([56, 18]);
+  });
+
+  it('should use the allowedSchemes option', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  click A "mailto:team@example.com"
+  click B "ftp://example.com/file"
+\`\`\`
+`;
+    const errors = await runSecurityLint(content, { allowedSchemes: ['https', 'ftp'] });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].lineNumber).toBe(5);
+    expect(errors[0].errorDetail).toBe(
+      "MMD-UNSAFE-URL: URL scheme 'mailto:' is not allowed. Allowed schemes: https, ftp"
+    );
+  });
+
+  it('should report callbacks only with forbidCallbacks', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  click A call notify(A)
+  click B showDetails "Tooltip"
+\`\`\`
+`;
+    expect(await runSecurityLint(content)).toHaveLength(0);
+
+    const errors = await runSecurityLint(content, { forbidCallbacks: true });
+    expect(errors).toHaveLength(2);
+    expect(errors[0].errorDetail).toBe(
+      "MMD-CALLBACK: Click callback 'notify' runs JavaScript from the page. Callbacks are forbidden by the forbidCallbacks option"
+    );
+    expect(errors[0].errorRange).toEqual([16, 6]);
+    expect(errors[1].errorRange).toEqual([11, 11]);
+  });
+
+  it('should report securityLevel loose in init directives', async () => {
+    const content = `
+\`\`\`mermaid
+%%{init: {"securityLevel": "loose"}}%%
+flowchart LR
+  A --> B
+\`\`\`
+`;
+    const errors = await runSecurityLint(content);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].lineNumber).toBe(3);
+    expect(errors[0].errorRange).toEqual([29, 5]);
+  });
+
+  it('should report script tags and event handlers in labels', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  A["<img src=x onerror=alert(1)>"] --> B["<script>alert(1)</script>"]
+\`\`\`
+`;
+    const errors = await runSecurityLint(content);
+    expect(errors).toHaveLength(2);
+    expect(errors[0].errorDetail).toBe(
+      "MMD-UNSAFE-HTML: HTML event handler attribute 'onerror' in diagram text"
+    );
+    expect(errors[0].errorRange).toEqual([17, 7]);
+    expect(errors[1].errorDetail).toBe('MMD-UNSAFE-HTML: HTML <script> element in diagram text');
+  });
+
+  it('should honor suppression directives', async () => {
+    const content = `
+\`\`\`mermaid
+flowchart LR
+  A --> B
+  %% mermaid-lint-disable-next-line url
+  click A "javascript:alert(1)"
+\`\`\`
+`;
+    const errors = await runSecurityLint(content);
+    expect(errors).toHaveLength(0);
+  });
+});
+
+// =============================================================================
+// KaTeX/Math Rule Tests
+// =============================================================================
+
+async function runKatexLint(
+  content: string,
+  config: Record<string, unknown> = {}
+): Promise<LintError[]> {
+  const result = await lint({
+    strings: { test: content },
+    customRules: [katexSyntaxRule],
+    config: {
+      default: false,
+      'katex-syntax': config,
+    },
+  });
+  return result.test;
+}
+
+describe('katex-syntax rule', () => {
+  describe('valid math expressions', () => {
+    it('should pass valid simple expression in math block', async () => {
+      const content = `
+\`\`\`math
+E = mc^2
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should pass valid expression in latex block', async () => {
+      const content = `
+\`\`\`latex
+\\frac{a}{b}
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should pass valid expression in tex block', async () => {
+      const content = `
+\`\`\`tex
+\\sqrt{x^2 + y^2}
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should pass valid expression in katex block', async () => {
+      const content = `
+\`\`\`katex
+\\sum_{i=1}^{n} x_i
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should pass valid integral expression', async () => {
+      const content = `
+\`\`\`math
+\\int_{0}^{\\infty} e^{-x} dx
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should pass valid matrix expression', async () => {
+      const content = `
+\`\`\`math
+\\begin{pmatrix}
+a & b \\\\
+c & d
+\\end{pmatrix}
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should pass valid Greek letters', async () => {
+      const content = `
+\`\`\`math
+\\alpha + \\beta = \\gamma
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should ignore non-math code blocks', async () => {
+      const content = `
+\`\`\`javascript
+const x = 1;
 \`\`\`
 
 \`\`\`python
@@ -587,6 +2901,19 @@ x^{2
       expect(errors.length).toBeGreaterThan(0);
     });
 
+    it('should report the range of the offending command', async () => {
+      const content = `
+\`\`\`math
+a + b
+  + \\badcmd
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(4);
+      expect(errors[0].errorRange).toEqual([5, 7]);
+    });
+
     it('should report helpful hint for undefined command', async () => {
       const content = `
 \`\`\`math
@@ -686,6 +3013,148 @@ a &lt; b
     });
   });
 
+  describe('dollar-delimited math', () => {
+    it('should pass valid inline and display math', async () => {
+      const content = `
+Einstein wrote $E = mc^2$ and later $\\frac{a}{b}$.
+
+$$
+\\sum_{i=1}^{n} x_i
+$$
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should detect errors in inline math', async () => {
+      const content = `
+Some text $\\unknowncommand$ here.
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(2);
+      expect(errors[0].errorRange).toEqual([12, 15]);
+      expect(errors[0].errorDetail).toContain('Undefined control sequence');
+    });
+
+    it('should report the exact line inside multi-line paragraphs', async () => {
+      const content = `
+First line of the paragraph
+second line $x^2$
+third line $\\frac{1}$
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(4);
+    });
+
+    it('should report the content line of multi-line display math', async () => {
+      const content = `
+$$
+a + b
+\\badcmd
+$$
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(4);
+    });
+
+    it('should ignore currency amounts', async () => {
+      const content = `
+It costs $5 and $10, or $20 for both.
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should still find math after currency amounts', async () => {
+      const content = `
+It costs $5 and $10 or $\\badcmd$.
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(1);
+    });
+
+    it('should ignore escaped dollar signs', async () => {
+      const content = `
+Escaped \\$\\badcmd\\$ is not math.
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should ignore dollar signs in code spans', async () => {
+      const content = `
+Use \`$\\badcmd$\` or \`\`$$x{$$\`\` in shell.
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should parse $$...$$ in display mode', async () => {
+      const content = `
+$$x = 1 \\tag{1}$$
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should parse $...$ in inline mode regardless of displayMode config', async () => {
+      const content = `
+Inline $x = 1 \\tag{1}$ is not allowed.
+`;
+      const errors = await runKatexLint(content, { displayMode: true });
+      expect(errors).toHaveLength(1);
+    });
+  });
+
+  describe('suppression directives', () => {
+    it('should skip a math block disabled by a directive', async () => {
+      const content = `
+\`\`\`math
+% katex-lint-disable
+\\frac{1}{2
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should skip fences with lint=false in the info string', async () => {
+      const content = `
+\`\`\`latex {lint=false}
+\\frac{1}{2
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should silence the next line for the named check', async () => {
+      const content = `
+\`\`\`math
+x = 1 \\\\
+% katex-lint-disable-next-line syntax
+\\undefinedcommand{y}
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(0);
+    });
+
+    it('should keep reporting checks that are not named', async () => {
+      const content = `
+\`\`\`math
+% katex-lint-disable-next-line empty
+\\undefinedcommand{y}
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(1);
+    });
+  });
+
   describe('configuration', () => {
     it('should work with displayMode enabled', async () => {
       const content = `
@@ -696,5 +3165,231 @@ a &lt; b
       const errors = await runKatexLint(content, { displayMode: true });
       expect(errors).toHaveLength(0);
     });
+
+    it('should report error codes and skip codes listed in ignoreCodes', async () => {
+      const content = `
+\`\`\`math
+\\fracc{1}{2}
+\`\`\`
+`;
+      const errors = await runKatexLint(content);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].errorDetail).toMatch(/^KTX-UNDEFINED-CS: Undefined control sequence/);
+
+      expect(await runKatexLint(content, { ignoreCodes: ['KTX-UNDEFINED-CS'] })).toHaveLength(0);
+    });
+
+    it('should report hints in Japanese with locale ja', async () => {
+      const content = `
+\`\`\`math
+x_{1
+\`\`\`
+
+\`\`\`math
+\`\`\`
+`;
+      const errors = await runKatexLint(content, { locale: 'ja' });
+      expect(errors).toHaveLength(2);
+      expect(errors[0].errorDetail).toMatch(
+        /^KTX-UNCLOSED-BRACE: Expected '}', got 'EOF' .*。すべての波括弧 \{\} が閉じられているか確認してください$/
+      );
+      expect(errors[1].errorDetail).toBe(
+        'KTX-EMPTY: 数式ブロックが空です。LaTeX の式を追加してください（例: E = mc^2）'
+      );
+    });
+  });
+
+  describe('platform profiles', () => {
+    it('should validate $`...`$ math on platforms that use it', async () => {
+      const content = `
+Inline $\`\\frac{1}{\`$ math.
+`;
+      expect(await runKatexLint(content)).toHaveLength(0);
+
+      const errors = await runKatexLint(content, { profile: 'github' });
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(2);
+    });
+
+    it('should only lint the math the platform recognizes', async () => {
+      const content = `
+\`\`\`latex
+\\frac{1}{
+\`\`\`
+
+<div class="math">
+\\sqrt{
+</div>
+
+$$
+\\frac{1}{
+$$
+`;
+      expect((await runKatexLint(content)).map((error) => error.lineNumber)).toEqual([3, 7, 11]);
+
+      const errors = await runKatexLint(content, { profile: 'github' });
+      expect(errors.map((error) => error.lineNumber)).toEqual([11]);
+    });
+
+    it('should ignore dollar math the profile disables', async () => {
+      const content = `
+Inline $\\frac{1}{$ math.
+`;
+      expect(await runKatexLint(content, { profile: 'obsidian' })).toHaveLength(1);
+
+      const errors = await runKatexLint(content, {
+        profile: { extends: 'obsidian', mathDelimiters: ['doubleDollar'] },
+      });
+      expect(errors).toHaveLength(0);
+    });
+  });
+
+  describe('validation cache', () => {
+    it('should reuse cached results', async () => {
+      const cacheDirectory = mkdtempSync(join(tmpdir(), 'katex-cache-'));
+      const config = { cache: true, cacheDirectory };
+      const content = `
+\`\`\`math
+\\frac{1}{
+\`\`\`
+
+Inline $x^2$ math.
+`;
+      expect(await runKatexLint(content, config)).toHaveLength(1);
+      expect(readdirSync(cacheDirectory)).toHaveLength(2);
+
+      const errors = await runKatexLint(content, config);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].lineNumber).toBe(3);
+      expect(readdirSync(cacheDirectory)).toHaveLength(2);
+      clearCache(cacheDirectory);
+    });
+  });
+});
+
+describe('mermaid-lint CLI', () => {
+  function createProject(files: Record<string, string>): string {
+    const directory = mkdtempSync(join(tmpdir(), 'mermaid-lint-'));
+    for (const [name, content] of Object.entries(files)) {
+      mkdirSync(dirname(join(directory, name)), { recursive: true });
+      writeFileSync(join(directory, name), content);
+    }
+    return directory;
+  }
+
+  async function runInProject(
+    directory: string,
+    args: string[]
+  ): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+    let stdout = '';
+    let stderr = '';
+    const exitCode = await runCli(args, {
+      cwd: directory,
+      stdout: (text: string) => {
+        stdout += text;
+      },
+      stderr: (text: string) => {
+        stderr += text;
+      },
+    });
+    return { exitCode, stdout, stderr };
+  }
+
+  it('should lint Markdown, diagram and math files and exit with 1', async () => {
+    const directory = createProject({
+      'README.md': '# Title\n\n```mermaid\nflowchart TD\n    A[Start --> B\n```\n',
+      'diagrams/flow.mmd': '---\ntitle: Flow\n---\nflowchart TD\n    A --> B[End\n',
+      'math/euler.tex': 'e^{i\\pi + 1 = 0\n',
+    });
+    const { exitCode, stdout } = await runInProject(directory, ['.']);
+
+    expect(exitCode).toBe(1);
+    const lines = stdout.trim().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatch(/^README\.md:5:\d+ mermaid-syntax MMD-/);
+    expect(lines[1]).toMatch(/^diagrams\/flow\.mmd:5:\d+ mermaid-syntax MMD-/);
+    expect(lines[2]).toMatch(/^math\/euler\.tex:1(:\d+)? katex-syntax KTX-/);
+  });
+
+  it('should exit with 0 for valid files selected by globs', async () => {
+    const directory = createProject({
+      'docs/guide.md': '```mermaid\nflowchart TD\n    A --> B\n```\n',
+      'docs/flow.mermaid': 'sequenceDiagram\n    Alice->>Bob: Hello\n',
+      'docs/drafts/broken.mmd': 'flowchart TD\n    A[Start --> B\n',
+      'notes.txt': 'not linted',
+    });
+    const { exitCode, stdout } = await runInProject(directory, [
+      'docs/**/*.{md,mermaid,mmd}',
+      '!docs/drafts',
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toBe('');
+  });
+
+  it('should report errors as JSON with their codes', async () => {
+    const directory = createProject({ 'flow.mmd': 'flowchart TD\n    A[Start --> B\n' });
+    const { exitCode, stdout } = await runInProject(directory, ['--format', 'json', 'flow.mmd']);
+
+    expect(exitCode).toBe(1);
+    expect(JSON.parse(stdout)).toEqual([
+      expect.objectContaining({
+        file: 'flow.mmd',
+        line: 2,
+        rule: 'mermaid-syntax',
+        code: 'MMD-UNCLOSED-BLOCK',
+      }),
+    ]);
+  });
+
+  it('should apply the configuration file and --basic', async () => {
+    const directory = createProject({
+      'flow.mmd': 'flowchart TD\n    A[Start --> B\n',
+      'config.json': JSON.stringify({
+        'mermaid-syntax': { mermaidModule: './missing-mermaid.mjs' },
+        'mermaid-accessibility': true,
+      }),
+    });
+    const { exitCode, stdout } = await runInProject(directory, [
+      '--basic',
+      '--config',
+      'config.json',
+      'flow.mmd',
+    ]);
+
+    // Basic mode never loads the (missing) mermaid module; accessibility runs too
+    expect(exitCode).toBe(1);
+    expect(stdout).toMatch(/^flow\.mmd:2:6 mermaid-syntax MMD-UNCLOSED-BRACKET: /m);
+    expect(stdout).toMatch(/^flow\.mmd:1(:\d+)? mermaid-accessibility MMD-/m);
+  });
+
+  it('should exit with 2 for usage and configuration errors', async () => {
+    const directory = createProject({
+      'flow.mmd': 'flowchart TD\n    A --> B\n',
+      'config.json': '{ not json',
+    });
+
+    expect((await runInProject(directory, [])).exitCode).toBe(2);
+    expect((await runInProject(directory, ['--format', 'xml', 'flow.mmd'])).exitCode).toBe(2);
+    const unmatched = await runInProject(directory, ['docs/*.md']);
+    expect(unmatched.exitCode).toBe(2);
+    expect(unmatched.stderr).toContain('No files match "docs/*.md"');
+    const invalidConfig = await runInProject(directory, ['--config', 'config.json', 'flow.mmd']);
+    expect(invalidConfig.exitCode).toBe(2);
+    expect(invalidConfig.stderr).toMatch(/^mermaid-lint: /);
+  });
+
+  it('should exit with 2 when markdownlint is not installed', async () => {
+    const directory = createProject({ 'flow.mmd': 'flowchart TD\n    A --> B\n' });
+    vi.doMock('markdownlint/promise', () => {
+      throw new Error("Cannot find package 'markdownlint'");
+    });
+    try {
+      const { exitCode, stderr } = await runInProject(directory, ['flow.mmd']);
+      expect(exitCode).toBe(2);
+      expect(stderr).toContain('mermaid-lint: markdownlint is not installed');
+    } finally {
+      vi.doUnmock('markdownlint/promise');
+    }
   });
 });
@@ -0,0 +1,4 @@
+// Preloaded with --import; worker threads inherit the flag
+import { register } from 'node:module';
+
+register('./ts-loader.mjs', import.meta.url);
@@ -0,0 +1,29 @@
+/**
+ * Module hooks that let worker threads started by the tests load the
+ * TypeScript sources (vitest transforms them only on the main thread)
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { transform } from 'esbuild';
+
+export function resolve(specifier, context, nextResolve) {
+  // Sources import each other with .js extensions
+  if (context.parentURL?.endsWith('.ts') && /^\.\.?\/.*\.js$/.test(specifier)) {
+    const url = new URL(specifier.replace(/\.js$/, '.ts'), context.parentURL);
+    if (existsSync(fileURLToPath(url))) {
+      return { url: url.href, shortCircuit: true };
+    }
+  }
+  return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+  if (!url.endsWith('.ts')) {
+    return nextLoad(url, context);
+  }
+  const source = await readFile(new URL(url), 'utf8');
+  const { code } = await transform(source, { loader: 'ts', format: 'esm' });
+  return { format: 'module', source: code, shortCircuit: true };
+}
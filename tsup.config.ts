@@ -1,10 +1,22 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['esm', 'cjs'],
-  dts: true,
-  clean: true,
-  sourcemap: true,
-  target: 'node18',
-});
+export default defineConfig([
+  {
+    entry: ['src/index.ts'],
+    format: ['esm', 'cjs'],
+    dts: true,
+    clean: true,
+    sourcemap: true,
+    // import.meta.url in the CommonJS build, where the module starts itself as a worker
+    shims: true,
+    target: 'node18',
+  },
+  {
+    // The CLI imports the rules from the build above, so pool workers start dist/index.js
+    entry: { 'mermaid-lint': 'src/bin.ts' },
+    format: ['esm'],
+    sourcemap: true,
+    external: ['./index.js'],
+    target: 'node18',
+  },
+]);
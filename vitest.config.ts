@@ -4,5 +4,11 @@ export default defineConfig({
   test: {
     globals: false,
     environment: 'node',
+    poolOptions: {
+      forks: {
+        // Worker threads started by the rule inherit this and load the TypeScript sources
+        execArgv: ['--import', './tests/register-ts-loader.mjs'],
+      },
+    },
   },
 });